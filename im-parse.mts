@@ -1,6 +1,23 @@
 /** Implish parser/normalizer
  * Transforms token trees from imp-load into normalized M-expression AST
  * This is the second phase: load[] → imparse[] → eval[]
+ *
+ * Every expression comes out as a tree of M-expressions, verb[arg; arg]:
+ *
+ *   ! 10 * 2 + 1        +[*[![10] ; 2] ; 1]      prefix binds tighter than infix
+ *   1 + 2 * ! 10        *[+[1 ; 2] ; ![10]]      infix runs left to right
+ *   take 3 ! 10         take[3 ; ![10]]          prefix arguments may be prefix calls
+ *   2 ! 10              ![2 ; 10]                postfix collects trailing nouns
+ *   2 +                 +[2]                     a verb short of arguments projects
+ *   2, + 3 * 5          +[2 ; *[3 ; 5]]          a comma threads the value into a verb
+ *   {x * 2} 10          @[{*[x ; 2]} ; 10]       a function literal is applied with @
+ *   x: 2 + 3            set[`x ; +[2 ; 3]]
+ *
+ * Whether a word is a verb, and its arity, comes from the word dictionary,
+ * plus the definitions (x: ..., f: {...}) seen earlier in the same input.
+ * Words the parser can't know about, such as a function passed in as an
+ * argument, parse as nouns; the evaluator parses each list again with the
+ * words bound at that point, which picks them up.
  */
 
 import * as imp from './imp-core.mjs'
@@ -10,11 +27,13 @@ import {
   ImpQ,
   SymT,
   ImpC,
-  ImpJsf,
   ImpJsfA,
-  ImpIfn,
-  ImpIfnA
+  ImpIfnA,
+  ImpLstA,
+  ImpLoc,
+  ImpError
 } from './imp-core.mjs'
+import {timeUnit, timeVec, isTimeVec} from './imp-time.mjs'
 
 // Word dictionary type (maps symbol names to ImpVals)
 type WordDict = Record<string, ImpVal>
@@ -39,74 +58,140 @@ function isRawSymbol(x: ImpVal): boolean {
   return ImpQ.isSym(x) && x[1].kind === SymT.RAW
 }
 
-// Helper: Resolve a RAW symbol to its value in the dictionary
-function resolveSymbol(sym: ImpVal, dict?: WordDict): ImpVal | null {
-  if (!dict || !isRawSymbol(sym)) {
-    return null
+// Helper: The arity of the verb a word names, or undefined if it isn't one
+// Names ending in / or \ are the folds and scans the evaluator makes from
+// dyadic verbs (+/ 1 2 3), which take one argument
+function verbArity(x: ImpVal, dict: WordDict): number | undefined {
+  if (!isRawSymbol(x)) return undefined
+  const name = (x[2] as symbol).description ?? ''
+  const w = dict[name]
+  if (w) return isVerb(w) ? getArity(w) : undefined
+  const base = dict[name.slice(0, -1)]
+  if (/[\/\\]$/.test(name) && base && base[0] === ImpT.JSF && getArity(base) === 2) return 1
+  return undefined
+}
+
+// Helper: Check if a value is a function literal {...}
+function isFnLiteral(x: ImpVal): boolean {
+  return ImpQ.isLst(x) && x[1].open === '{'
+}
+
+// Scan AST for implicit parameters x, y, z to determine function arity
+// Does NOT scan inside nested curly brace functions
+export function scanArity(body: ImpVal[]): number {
+  let hasZ = false, hasY = false, hasX = false
+
+  function scan(x: ImpVal): void {
+    // If it's a RAW symbol, check if it's x, y, or z
+    if (ImpQ.isSym(x) && x[1].kind === SymT.RAW) {
+      let name = x[2].description!
+      if (name === 'z') hasZ = true
+      else if (name === 'y') hasY = true
+      else if (name === 'x') hasX = true
+    }
+    // If it's a GET symbol (:x, :y, :z), also count those
+    else if (ImpQ.isSym(x) && x[1].kind === SymT.GET) {
+      let name = x[2].description!
+      if (name === 'z') hasZ = true
+      else if (name === 'y') hasY = true
+      else if (name === 'x') hasX = true
+    }
+    // Recursively scan lists, but NOT curly brace lists (nested functions)
+    else if (ImpQ.isLst(x)) {
+      // Skip if this is a curly brace list (nested function)
+      if (x[1].open === '{') return
+      // Otherwise scan the contents
+      for (let item of x[2]) scan(item)
+    }
+    // Also scan TOP nodes
+    else if (ImpQ.isTop(x)) {
+      for (let item of x[2]) scan(item)
+    }
+  }
+
+  for (let item of body) scan(item)
+
+  if (hasZ) return 3
+  if (hasY) return 2
+  if (hasX) return 1
+  return 0
+}
+
+// Split an explicit k-style signature off the front of a function body:
+// {[a; b] a + b} → params ['a', 'b'], body [a + b]
+// Returns null when the body has no leading [names] list
+export function scanSignature(body: ImpVal[]): {params: string[], body: ImpVal[]} | null {
+  let head = body[0]
+  if (!head || !ImpQ.isLst(head) || head[1].open !== '[') return null
+  let params: string[] = []
+  for (let item of head[2]) {
+    if (item[0] === ImpT.SEP && item[2] === ';') continue
+    if (!ImpQ.isSym(item) || item[1].kind !== SymT.RAW) return null
+    params.push(item[2].description!)
   }
-  const name = (sym[2] as symbol).description
-  return name ? (dict[name] || null) : null
+  return {params, body: body.slice(1)}
+}
+
+// Lists as written, by the parsed list they became
+const sources = new WeakMap<ImpVal, ImpVal[]>()
+
+// The items of a list as written, before parsing.  Parsing always starts
+// from these, so a list parsed again (with more words known) parses afresh
+export function sourceOf(x: ImpVal): ImpVal[] {
+  return sources.get(x) ?? x[2] as ImpVal[]
+}
+
+// A parsed copy of the list x (or a TOP node, for lists parsed as code)
+function parsedList(x: ImpVal, items: ImpVal[], top = x[0] === ImpT.TOP): ImpVal {
+  const y: ImpVal = top ? [ImpT.TOP, x[0] === ImpT.TOP ? x[1] : null, items] : imp.lst(x[1] as ImpLstA, items)
+  sources.set(y, sourceOf(x))
+  return ImpLoc.copy(y, x)
+}
+
+// The parameter names of a function literal's body
+function fnParams(body: ImpVal[]): string[] {
+  return scanSignature(body)?.params ?? ['x', 'y', 'z'].slice(0, scanArity(body))
 }
 
 // Parse/normalize a token tree into M-expression form
 // When dict is provided, performs full M-expression transformation
 // Otherwise just combines literal strands (backward compatibility)
-export function imparse(tree: ImpVal, dict?: WordDict): ImpVal {
+// With deep (the default), lists nested inside the tree are parsed too;
+// the evaluator parses one level at a time, as it reaches each list, so
+// that it parses with the words bound by then
+export function imparse(tree: ImpVal, dict?: WordDict, deep = true): ImpVal {
   // Only process TOP and LST nodes
   if (tree[0] !== ImpT.TOP && tree[0] !== ImpT.LST) {
     return tree
   }
 
-  const items = tree[2] as ImpVal[]
+  const items = sourceOf(tree)
 
-  // Phase 1: Form strands (numeric and symbol literals)
-  const phase1: ImpVal[] = formStrands(items)
-
-  // Phase 1.5: Transform GET/SET symbols to M-expressions (always, even without dict)
+  // Without a dictionary: form strands (numeric and symbol literals), then
+  // transform GET/SET symbols to M-expressions
   // :wd → get[`wd]
   // x: expr → set[`x; expr]
-  const phase15: ImpVal[] = transformGetSet(phase1, dict)
-
-  // Phase 2: Transform to M-expressions (if dictionary provided)
-  // Transform TOP-level sequences AND regular bracket lists (source code)
-  // Do NOT transform projection syntax (verb in opener like "+[")
-  //
-  // STATUS: PHASE 1 - Conservative transformation enabled
-  // Transforms postfix/infix ONLY when no prefix verbs present
-  // Cases WITH prefix verbs (! 10 * 2) are left for evaluator
-  // This fixes: 2 !, 2 + 3, 2 + 3 * 5 (postfix and infix chains)
-  // Skips: ! 10, ! 10 * 2, 1 + 2 * ! 10 (prefix cases)
-
-  // Check if this is a regular list (not projection syntax, curly braces, parens, or backtick)
-  // Projection syntax has verb in opener: "+[", "![", etc.
+  if (!dict) {
+    return parsedList(tree, transformGetSet(formStrands(items)))
+  }
+
+  // Quoted lists are data: '[...] strips one quote (a quoted list handed
+  // to imparse itself is parsed as code), and `[...] is quasiquotation,
+  // which the evaluator parses as it fills in the unquoted parts
   // Regular lists: "[", "'[" (single quote is OK - we transform contents)
-  // Curly braces "{...}" are function definitions - don't transform
-  // Parentheses "(...)" are grouping - don't transform (let evaluator handle)
-  // Backtick "`[...]" is quasiquotation - don't transform (evaluator handles it)
-  const isRegularList = tree[0] === ImpT.LST &&
-                        tree[1].open?.match(/^'*\[/)  // Plain or single-quoted bracket, no verb
-
-  const isCurlyBraces = tree[0] === ImpT.LST && tree[1].open === '{'
-  const isParens = tree[0] === ImpT.LST && tree[1].open === '('
-  const isBacktick = tree[0] === ImpT.LST && tree[1].open?.startsWith("`")
-
-  const shouldTransform = dict && (tree[0] === ImpT.TOP || isRegularList) &&
-                          !isCurlyBraces && !isParens && !isBacktick
-  const phase2 = (shouldTransform && dict) ? transformToMExpr(phase15, dict) : phase15
-
-  // Check if transformation actually occurred (phase2 !== phase1)
-  const wasTransformed = phase2 !== phase1
-
-  // Return with appropriate structure
-  if (tree[0] === ImpT.TOP) {
-    return [ImpT.TOP, tree[1], phase2]
-  } else if (isRegularList && wasTransformed) {
-    // Regular lists that got transformed become TOP nodes (unwrapped)
-    return [ImpT.TOP, null, phase2]
-  } else {
-    // Projection syntax and untransformed lists stay as lists
-    return imp.lst(tree[1], phase2)
+  const isRegularList = tree[0] === ImpT.LST && /^'*\[$/.test(tree[1].open)
+  const isBacktick = tree[0] === ImpT.LST && tree[1].open.startsWith("`")
+  if (isBacktick) return parsedList(tree, formStrands(items))
+
+  // Definitions made while parsing go in a child scope, never the caller's dictionary
+  const ctx: Ctx = {words: Object.create(dict), deep}
+  if (tree[0] === ImpT.LST && !isRegularList) {
+    // A function body, parenthesized group, projection (+[2; 3]) or dictionary literal
+    return parseList(tree, ctx, false)
   }
+
+  // Regular lists become TOP nodes (unwrapped)
+  return parsedList(tree, parseSeq(items, ctx), true)
 }
 
 // Phase 1: Form strands from adjacent literals
@@ -118,23 +203,38 @@ function formStrands(items: ImpVal[]): ImpVal[] {
     const item = items[i]
 
     // Check if this is the start of a numeric strand
-    if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
-      const nums: number[] = [item[2] as number]
-      let hasNum = item[0] === ImpT.NUM
+    if (item[0] === ImpT.INT || item[0] === ImpT.NUM || item[0] === ImpT.BIG) {
+      const nums: (number | bigint)[] = [item[2]]
+      let hasNum = item[0] === ImpT.NUM, hasBig = item[0] === ImpT.BIG
       let j = i + 1
 
-      // Collect adjacent INT/NUM tokens
+      // Collect adjacent INT/NUM/BIG tokens
       while (j < items.length) {
         const next = items[j]
-        if (next[0] !== ImpT.INT && next[0] !== ImpT.NUM) break
-        nums.push(next[2] as number)
+        if (next[0] !== ImpT.INT && next[0] !== ImpT.NUM && next[0] !== ImpT.BIG) break
+        nums.push(next[2])
         if (next[0] === ImpT.NUM) hasNum = true
+        if (next[0] === ImpT.BIG) hasBig = true
         j++
       }
 
-      // If we collected more than one, create a strand
+      // If we collected more than one, create a strand (a float makes it NUMs, else a big makes it BIGs)
+      if (nums.length > 1) {
+        const strand = hasNum ? ImpC.nums(nums.map(Number)) : hasBig ? ImpC.bigs(nums.map(n => BigInt(n))) : ImpC.ints(nums as number[])
+        refined.push(ImpLoc.copy(strand, item))
+        i = j
+        continue
+      }
+    }
+
+    // Adjacent dates (or times, timestamps, timespans) form a vector of that type
+    const unit = timeUnit(item[0])
+    if (unit && !isTimeVec(item[0])) {
+      const nums: number[] = [item[2] as number]
+      let j = i + 1
+      while (j < items.length && items[j][0] === item[0]) nums.push(items[j++][2] as number)
       if (nums.length > 1) {
-        refined.push(hasNum ? ImpC.nums(nums) : ImpC.ints(nums))
+        refined.push(ImpLoc.copy([timeVec(unit), null, nums] as ImpVal, item))
         i = j
         continue
       }
@@ -157,7 +257,7 @@ function formStrands(items: ImpVal[]): ImpVal[] {
 
       // If we collected more than one, create a strand
       if (syms.length > 1) {
-        refined.push(ImpC.syms(syms))
+        refined.push(ImpLoc.copy(ImpC.syms(syms), item))
         i = j
         continue
       }
@@ -174,7 +274,8 @@ function formStrands(items: ImpVal[]): ImpVal[] {
 // Phase 1.5: Transform GET/SET symbols to M-expressions
 // :wd → get[`wd]
 // x: expr → set[`x; expr]
-function transformGetSet(items: ImpVal[], dict?: WordDict): ImpVal[] {
+// With a parse context, the RHS is parsed and the definition noted in its scope
+function transformGetSet(items: ImpVal[], ctx?: Ctx): ImpVal[] {
   const result: ImpVal[] = []
   let i = 0
 
@@ -185,7 +286,7 @@ function transformGetSet(items: ImpVal[], dict?: WordDict): ImpVal[] {
     if (ImpQ.isSym(item) && item[1].kind === SymT.GET) {
       const symName = item[2] as symbol
       const bqtSym = ImpC.sym(symName, SymT.BQT)
-      const mexpr = imp.lst({open: 'get[', close: ']'}, [bqtSym])
+      const mexpr = ImpLoc.copy(imp.lst({open: 'get[', close: ']'}, [bqtSym]), item)
       result.push(mexpr)
       i++
       continue
@@ -226,14 +327,17 @@ function transformGetSet(items: ImpVal[], dict?: WordDict): ImpVal[] {
       }
 
       if (rhs.length === 0) {
-        throw `SET symbol ${symName.description} has no right-hand side`
+        throw new ImpError('parse', `SET symbol ${symName.description} has no right-hand side`)
+      }
+
+      // A function literal can call itself by name: f: {... f x - 1}
+      if (ctx && rhs.length === 1 && isFnLiteral(rhs[0])) {
+        ctx.words[symName.description!] = ImpC.ifn(fnParams(sourceOf(rhs[0])).length, [])
       }
 
       // Transform the RHS through full pipeline (handles GET/SET, infix, postfix, commas)
-      // First recursively handle GET/SET in the RHS
-      const rhsPhase1 = transformGetSet(rhs, dict)
-      // Then apply full M-expression transformation if dict available
-      const transformedRhs = dict ? transformToMExpr(rhsPhase1, dict) : rhsPhase1
+      const transformedRhs = ctx ? parseStatement(transformGetSet(rhs, ctx), ctx) : transformGetSet(rhs)
+      if (ctx) ctx.words[symName.description!] = definedAs(transformedRhs, ctx.words)
 
       // Build the M-expression: set[`foo; rhs]
       const args: ImpVal[] = [bqtSym, ImpC.sep(';')]
@@ -243,10 +347,10 @@ function transformGetSet(items: ImpVal[], dict?: WordDict): ImpVal[] {
         args.push(transformedRhs[0])
       } else {
         // Multiple items on RHS - wrap in TOP node for further processing
-        args.push(imp.lst(undefined, transformedRhs))
+        args.push(ImpLoc.copy(imp.lst(undefined, transformedRhs), transformedRhs[0]))
       }
 
-      const mexpr = imp.lst({open: 'set[', close: ']'}, args)
+      const mexpr = ImpLoc.copy(imp.lst({open: 'set[', close: ']'}, args), item)
       result.push(mexpr)
       i = j
       continue
@@ -260,412 +364,196 @@ function transformGetSet(items: ImpVal[], dict?: WordDict): ImpVal[] {
   return result
 }
 
-// Pass 1: Transform prefix verbs (F a → F[a])
-// Prefix verbs bind tighter than infix - they consume arguments eagerly
-// Process RIGHT-TO-LEFT so nested prefix verbs work: echo show type? 3 → echo[show[type?[3]]]
-function transformPrefix(items: ImpVal[], dict: WordDict): ImpVal[] {
-  const result: ImpVal[] = []
-  let i = items.length - 1
-
-  while (i >= 0) {
-    const item = items[i]
-
-    // Skip separators
-    if (item[0] === ImpT.SEP) {
-      result.unshift(item)
-      i--
-      continue
-    }
-
-    // Check if this is a RAW symbol verb
-    if (!isRawSymbol(item)) {
-      result.unshift(item)
-      i--
-      continue
-    }
-
-    const val = resolveSymbol(item, dict)
-    const resolved = val || item
-
-    if (isVerb(resolved)) {
-      const arity = getArity(resolved)
-
-      // Check if this is PREFIX (no noun left argument available)
-      // Look left (until a separator) for ANY noun (verbs don't block)
-      let hasLeftArg = false
-      for (let j = i - 1; j >= 0; j--) {
-        const leftItem = items[j]
-        if (leftItem[0] === ImpT.SEP) break
-
-        const leftVal = resolveSymbol(leftItem, dict)
-        const leftResolved = leftVal || leftItem
-        if (!isVerb(leftResolved)) {
-          hasLeftArg = true
-          break
-        }
-        // If it's a verb, keep scanning farther left for a noun
-        continue
-      }
-
-      if (!hasLeftArg && arity >= 1) {
-        // This is PREFIX - collect arguments from result (which has items to the right)
-        const args: ImpVal[] = []
-
-        for (let j = 0; j < arity && j < result.length; j++) {
-          const nextItem = result[j]
-          if (nextItem[0] === ImpT.SEP) break // Stop at separator
-          args.push(nextItem)
-        }
-
-        // If we collected exactly the right number of args, create M-expression
-        if (args.length === arity) {
-          const verbName = (item[2] as symbol).description || '?'
-          const argList: ImpVal[] = []
-          for (let k = 0; k < args.length; k++) {
-            if (k > 0) argList.push(ImpC.sep(';'))
-            argList.push(args[k])
-          }
-          const mexpr = imp.lst({open: verbName + '[', close: ']'}, argList)
-
-          // Remove consumed args from result and prepend mexpr
-          result.splice(0, args.length)
-          result.unshift(mexpr)
-          i--
-          continue
-        }
-      }
-    }
-
-    // Default: keep as-is
-    result.unshift(item)
-    i--
-  }
-
-  return result
+// What a definition makes a word, as far as parsing goes: a verb (a function
+// literal, another verb, or a projection of one, with the arity left over),
+// a dictionary (so d`key can be read), or else a noun
+function definedAs(rhs: ImpVal[], words: WordDict): ImpVal {
+  if (rhs.length !== 1) return imp.NIL
+  const x = rhs[0]
+  if (isFnLiteral(x)) return ImpC.ifn(fnParams(x[2] as ImpVal[]).length, [])
+  const arity = verbArity(x, words)
+  if (arity !== undefined) return ImpC.ifn(arity, [])
+  if (!ImpQ.isLst(x)) return imp.NIL
+  if (x[1].open === ':[') return imp.dct()
+  if (x[1].open === 'set[') return definedAs(x[2].slice(2), words)
+  const head = x[1].open.match(/^(.+)\[$/)
+  const whole = head ? verbArity(ImpC.sym(Symbol(head[1]), SymT.RAW), words) : undefined
+  const given = x[2].length && 1 + x[2].filter(a => a[0] === ImpT.SEP && a[2] === ';').length
+  return whole !== undefined && given < whole ? ImpC.ifn(whole - given, []) : imp.NIL
 }
 
-// Pass 2: Transform infix and postfix (left-to-right)
-function transformInfixPostfix(items: ImpVal[], dict: WordDict): ImpVal[] {
-  const result: ImpVal[] = []
-  let i = 0
+// Phase 2: the precedence pass
+// The words in scope (with the definitions seen so far), and whether to
+// parse nested lists as well
+type Ctx = {words: WordDict, deep: boolean}
 
-  while (i < items.length) {
-    const item = items[i]
-
-    // Skip separators
-    if (item[0] === ImpT.SEP) {
-      result.push(item)
-      i++
-      continue
-    }
-
-    // Check if this is a RAW symbol verb
-    if (!isRawSymbol(item)) {
-      result.push(item)
-      i++
-      continue
-    }
-
-    const val = resolveSymbol(item, dict)
-    const resolved = val || item
-
-    if (isVerb(resolved)) {
-      const arity = getArity(resolved)
-      const availableArgs = result.length
-      const hasAhead = i + 1 < items.length
-
-      // Arity-2 verbs are INFIX operators: a op b → op[a; b]
-      if (arity === 2 && availableArgs > 0 && hasAhead) {
-        const leftArg = result.pop()!
-        let rightArg = items[i + 1]
-        let consume = 2
-
-        // If right token is a monadic verb, eagerly apply it prefix-style to following nouns
-        // so expressions like "1 + 2 * ! 10" become "*[+[1; 2]; ![10]]"
-        const rightVal = resolveSymbol(rightArg, dict)
-        const rightResolved = rightVal || rightArg
-        if (isVerb(rightResolved) && getArity(rightResolved) === 1 && i + 2 < items.length) {
-          const args: ImpVal[] = []
-          let j = i + 2
-          while (j < items.length) {
-            const next = items[j]
-            if (next[0] === ImpT.SEP) break
-
-            const nextVal = resolveSymbol(next, dict)
-            const nextResolved = nextVal || next
-            if (isVerb(nextResolved)) break
-
-            // For monadic functions on the right of infix, keep strands intact
-            const rightArity = getArity(rightResolved)
-            if (rightArity === 1) {
-              // Keep strands as single units for monadic functions
-              args.push(next)
-            } else {
-              // Unwrap strands for arguments (match postfix collection behavior)
-              if (next[0] === ImpT.INTs || next[0] === ImpT.NUMs) {
-                const nums = next[2] as number[]
-                for (const num of nums) {
-                  args.push(next[0] === ImpT.INTs ? ImpC.int(num) : ImpC.num(num))
-                }
-              } else if (next[0] === ImpT.SYMs) {
-                const syms = next[2] as symbol[]
-                for (const sym of syms) {
-                  args.push(ImpC.sym(sym, SymT.BQT))
-                }
-              } else {
-                args.push(next)
-              }
-            }
-            j++
-          }
-
-          if (args.length > 0) {
-            const verbName = (rightArg[2] as symbol).description || '?'
-            const argList: ImpVal[] = []
-            for (let k = 0; k < args.length; k++) {
-              if (k > 0) argList.push(ImpC.sep(';'))
-              argList.push(args[k])
-            }
-            rightArg = imp.lst({open: verbName + '[', close: ']'}, argList)
-            consume = 2 + args.length
-          }
-        }
-
-        const verbName = (item[2] as symbol).description || '?'
-        const mexpr = imp.lst({open: verbName + '[', close: ']'}, [leftArg, ImpC.sep(';'), rightArg])
-        result.push(mexpr)
-        i += consume
-        continue
-      }
-
-      // Arity-1 verbs can be POSTFIX: a F → F[a]
-      // Also collect trailing nouns: a F b c → F[a; b; c] (let evaluator check arity)
-      if (arity === 1 && availableArgs > 0) {
-        const args: ImpVal[] = [result.pop()!]
-
-        // Collect all trailing NOUNS (stop at verbs or separators)
-        let j = i + 1
-        while (j < items.length) {
-          const nextItem = items[j]
-          if (nextItem[0] === ImpT.SEP) break
-
-          // Check if next item is a verb - if so, stop
-          const nextVal = resolveSymbol(nextItem, dict)
-          const nextResolved = nextVal || nextItem
-          if (isVerb(nextResolved)) break
-
-          // For arity-1 functions, keep strands as single units
-          // For variadic or higher-arity functions, unwrap strands into separate args
-          if (arity === 1 || arity === -1) {
-            // Keep strands intact for monadic functions
-            args.push(nextItem)
-          } else {
-            // Unwrap strands when collecting as function arguments
-            // This allows: 5 ! 20 30 → ![5; 20; 30] instead of ![5; 20 30]
-            if (nextItem[0] === ImpT.INTs || nextItem[0] === ImpT.NUMs) {
-              const nums = nextItem[2] as number[]
-              for (const num of nums) {
-                args.push(nextItem[0] === ImpT.INTs ? ImpC.int(num) : ImpC.num(num))
-              }
-            } else if (nextItem[0] === ImpT.SYMs) {
-              const syms = nextItem[2] as symbol[]
-              for (const sym of syms) {
-                args.push(ImpC.sym(sym, SymT.BQT))  // Unwrapped syms from strand are backtick
-              }
-            } else {
-              args.push(nextItem)
-            }
-          }
-          j++
-        }
+// Build the M-expression verb[arg; arg; ...], located at the verb
+function mexpr(verb: ImpVal, args: ImpVal[], open = ((verb[2] as symbol).description || '?') + '['): ImpVal {
+  const items: ImpVal[] = []
+  args.forEach((arg, k) => { if (k > 0) items.push(ImpC.sep(';')); items.push(arg) })
+  return ImpLoc.copy(imp.lst({open, close: ']'}, items), verb)
+}
 
-        const verbName = (item[2] as symbol).description || '?'
-        const argList: ImpVal[] = []
-        for (let k = 0; k < args.length; k++) {
-          if (k > 0) argList.push(ImpC.sep(';'))
-          argList.push(args[k])
-        }
-        const mexpr = imp.lst({open: verbName + '[', close: ']'}, argList)
-        result.push(mexpr)
-        i = j
-        continue
-      }
-    }
+// Several expressions standing as one argument are a list
+function group(xs: ImpVal[]): ImpVal {
+  return xs.length === 1 ? xs[0] : imp.lst(undefined, xs)
+}
 
-    // Default: keep as-is
-    result.push(item)
-    i++
+// A sequence of statements, split at ; and newlines
+function parseSeq(items: ImpVal[], ctx: Ctx): ImpVal[] {
+  const out: ImpVal[] = []
+  let stmt: ImpVal[] = []
+  const flush = () => {
+    if (stmt.length) out.push(...parseStatement(transformGetSet(stmt, ctx), ctx))
+    stmt = []
   }
-
-  return result
+  for (const item of formStrands(items)) {
+    if (item[0] === ImpT.SEP && item[2] !== ',') { flush(); out.push(item) }
+    else stmt.push(item)
+  }
+  flush()
+  return out
 }
 
-// Transform comma-separated segments into chained M-expressions
-// e.g., `2, + 3` → `+[2; 3]`, `2, + 3 * 5, + 7` → `+[+[2; *[3; 5]]; 7]`
-function transformCommas(items: ImpVal[], dict: WordDict): ImpVal[] {
-  // Split items by comma separators
-  const segments: ImpVal[][] = []
-  let currentSegment: ImpVal[] = []
-
+// A statement, in which commas either separate the arguments of a leading
+// verb (take 2, 1 2 3 → take[2; 1 2 3]) or thread the value so far into the
+// verb after them as its first argument (2, + 3 * 5 → +[2; *[3; 5]])
+function parseStatement(items: ImpVal[], ctx: Ctx): ImpVal[] {
+  const segments: ImpVal[][] = [[]]
   for (const item of items) {
-    if (item[0] === ImpT.SEP && item[2] === ',') {
-      if (currentSegment.length > 0) {
-        segments.push(currentSegment)
-        currentSegment = []
-      }
-    } else {
-      currentSegment.push(item)
-    }
-  }
-  if (currentSegment.length > 0) {
-    segments.push(currentSegment)
+    if (item[0] === ImpT.SEP && item[2] === ',') segments.push([])
+    else segments[segments.length - 1].push(item)
   }
+  const segs = segments.filter(seg => seg.length > 0)
+  if (segs.length <= 1) return parseExprs(segs[0] ?? [], ctx)
+  const startsWithVerb = (seg: ImpVal[]) => verbArity(seg[0], ctx.words) !== undefined
 
-  if (segments.length === 1) {
-    // No commas, just transform normally
-    return transformNoComma(segments[0], dict)
+  // A leading verb, with no verbs after the commas, takes each segment as an argument
+  if (startsWithVerb(segs[0]) && !segs.slice(1).some(startsWithVerb)) {
+    return [mexpr(segs[0][0], segs.map((seg, i) => group(parseExprs(i === 0 ? seg.slice(1) : seg, ctx))))]
   }
 
-  // Check if first segment starts with a prefix verb (+ args, more-args)
-  // In this case, commas are argument separators, not threading
-  // BUT: only if subsequent segments don't start with verbs (which indicates threading)
-  if (segments[0].length > 0) {
-    const firstItem = segments[0][0]
-    const firstIsVerb = isRawSymbol(firstItem) &&
-                        isVerb(resolveSymbol(firstItem, dict) || firstItem)
-
-    if (firstIsVerb && segments.length > 1) {
-      // Check if any subsequent segment starts with a verb (indicates threading, not args)
-      let hasVerbAfterComma = false
-      for (let i = 1; i < segments.length; i++) {
-        if (segments[i].length > 0) {
-          const segFirstItem = segments[i][0]
-          const segFirstIsVerb = isRawSymbol(segFirstItem) &&
-                                 isVerb(resolveSymbol(segFirstItem, dict) || segFirstItem)
-          if (segFirstIsVerb) {
-            hasVerbAfterComma = true
-            break
-          }
-        }
-      }
-
-      // Only treat as comma-separated args if no verbs after commas
-      if (!hasVerbAfterComma) {
-        const verbItem = firstItem
-        const verbName = (verbItem[2] as symbol).description || '?'
-
-        // Collect all arguments from all segments (comma-separated args)
-        const allArgs: ImpVal[] = []
-        for (let i = 0; i < segments.length; i++) {
-          const segment = i === 0 ? segments[i].slice(1) : segments[i]  // Skip verb in first segment
-          const transformed = transformNoComma(segment, dict)
-          if (i > 0) allArgs.push(ImpC.sep(';'))
-          allArgs.push(...transformed)
-        }
-
-        // Build M-expression: verb[arg1; arg2; ...]
-        const mexpr = imp.lst({open: verbName + '[', close: ']'}, allArgs)
-        return [mexpr]
-      }
-    }
-  }
-
-  // Process segments with comma threading
-  // First segment transforms normally
-  let result = transformNoComma(segments[0], dict)
-
-  // Subsequent segments: check if they start with a verb (threading) or noun (arg separator)
-  for (let i = 1; i < segments.length; i++) {
-    const segment = segments[i]
-    if (segment.length === 0) {
-      throw "comma followed by nothing"
-    }
-
-    // Check if first item is a verb (for threading)
-    const firstItem = segment[0]
-    const isThreading = isRawSymbol(firstItem) &&
-                        isVerb(resolveSymbol(firstItem, dict) || firstItem)
-
-    if (!isThreading) {
+  let result = parseExprs(segs[0], ctx)
+  for (const seg of segs.slice(1)) {
+    if (!startsWithVerb(seg)) {
       // Not threading - this is argument separation (like `+ 1 2, 3 4`)
-      // Just append the comma and transformed segment to results
-      result.push(ImpC.sep(','))
-      const transformed = transformNoComma(segment, dict)
-      result.push(...transformed)
+      result.push(ImpC.sep(','), ...parseExprs(seg, ctx))
       continue
     }
-
-    // Threading case: verb takes previous result as first arg
-    const verbItem = firstItem
-    const val = resolveSymbol(verbItem, dict)
-    const resolved = val || verbItem
-
-    const arity = getArity(resolved)
-    const verbName = (verbItem[2] as symbol).description || '?'
-
+    const verb = seg[0], arity = verbArity(verb, ctx.words)
     if (arity === 1) {
-      // Arity-1: verb[prevResult]
-      if (segment.length > 1) {
-        throw `arity-1 verb ${verbName} after comma cannot have additional arguments`
+      if (seg.length > 1) {
+        throw new ImpError('valence', `arity-1 verb ${(verb[2] as symbol).description} after comma cannot have additional arguments`)
       }
-      // Wrap result in single M-expression
-      const mexpr = imp.lst({open: verbName + '[', close: ']'},
-                            result.length === 1 ? result : [imp.lst(undefined, result)])
-      result = [mexpr]
+      result = [mexpr(verb, [group(result)])]
     } else if (arity === 2) {
-      // Arity-2: verb[prevResult; restOfSegment]
-      const restItems = segment.slice(1)
-      const rightArg = transformNoComma(restItems, dict)
+      result = [mexpr(verb, [group(result), group(parseExprs(seg.slice(1), ctx))])]
+    } else {
+      throw new ImpError('valence', `comma-verb sequencing requires verb of arity 1 or 2, got arity ${arity}`)
+    }
+  }
+  return result
+}
 
-      // Build M-expression: verb[prevResult; rightArg]
+// The expressions in a run of items without separators, left to right
+// (adjacent nouns are separate expressions, which a list takes as its items)
+function parseExprs(items: ImpVal[], ctx: Ctx): ImpVal[] {
+  const words = ctx.words
+  let pos = 0
+
+  // A noun, or a PREFIX verb taking the terms after it as its arguments:
+  // take 3 ! 10 → take[3; ![10]]; with too few terms left it projects
+  const term = (): ImpVal => {
+    const item = items[pos++]
+    const arity = verbArity(item, words)
+    if (arity !== undefined) {
       const args: ImpVal[] = []
-      // Add previous result
-      if (result.length === 1) {
-        args.push(result[0])
-      } else {
-        args.push(imp.lst(undefined, result))
-      }
-      args.push(ImpC.sep(';'))
-      // Add right argument
-      if (rightArg.length === 1) {
-        args.push(rightArg[0])
-      } else {
-        args.push(imp.lst(undefined, rightArg))
+      while (args.length < arity && pos < items.length) args.push(term())
+      return args.length ? mexpr(item, args) : item
+    }
+    // A function literal with arguments after it is applied: {x * 2} 10 → @[{x * 2}; 10]
+    if (isFnLiteral(item)) {
+      const fn = nested(item, ctx), want = fnParams(item[2] as ImpVal[]).length
+      const args: ImpVal[] = []
+      while (args.length < want && pos < items.length) args.push(term())
+      return args.length ? mexpr(item, [fn, ...args], '@[') : fn
+    }
+    // d`key reads a key of a dictionary: d[`key]
+    if (isRawSymbol(item) && words[(item[2] as symbol).description!]?.[0] === ImpT.DCT && pos < items.length) {
+      const key = items[pos]
+      if (key[0] === ImpT.SYMs || (ImpQ.isSym(key) && key[1].kind === SymT.BQT)) {
+        pos++
+        return mexpr(item, [key])
       }
+    }
+    return nested(item, ctx)
+  }
 
-      const mexpr = imp.lst({open: verbName + '[', close: ']'}, args)
-      result = [mexpr]
-    } else {
-      throw `comma-verb sequencing requires verb of arity 1 or 2, got arity ${arity}`
+  const expr = (): ImpVal => {
+    let left = term()
+    if (verbArity(left, words) !== undefined) return left  // a verb alone is a value
+    while (pos < items.length) {
+      const op = items[pos], arity = verbArity(op, words)
+      if (arity === 2) {
+        // Arity-2 verbs are INFIX operators: a op b → op[a; b] (op[a] at the end)
+        pos++
+        left = mexpr(op, pos < items.length ? [left, term()] : [left])
+      } else if (arity === 1) {
+        // Arity-1 verbs are POSTFIX: a F → F[a]
+        // Also collect trailing nouns: a F b c → F[a; b; c] (let evaluator check arity)
+        pos++
+        const args = [left]
+        while (pos < items.length && verbArity(items[pos], words) === undefined) args.push(nested(items[pos++], ctx))
+        left = mexpr(op, args)
+      } else break  // any other verb starts the next expression
     }
+    return left
   }
 
-  return result
+  const exprs: ImpVal[] = []
+  while (pos < items.length) exprs.push(expr())
+  return exprs
 }
 
-// Transform items without commas (helper for comma threading)
-function transformNoComma(items: ImpVal[], dict: WordDict): ImpVal[] {
-  // Two-pass transformation:
-  // Pass 1: PREFIX verbs (bind tighter, consume args eagerly)
-  //   ! 10 → ![10]
-  // Pass 2: INFIX and POSTFIX (left-to-right)
-  //   ![10] * 2 → *[![10]; 2]
-  const afterPrefix = transformPrefix(items, dict)
-  const afterInfix = transformInfixPostfix(afterPrefix, dict)
-  return afterInfix
+// A list inside an expression: parsed too when deep, else left for the evaluator
+function nested(x: ImpVal, ctx: Ctx): ImpVal {
+  return ctx.deep && (ImpQ.isLst(x) || ImpQ.isTop(x)) ? parseList(x, ctx, true) : x
 }
 
-// Phase 2: Transform to M-expressions
-// Coordinates the two-pass transformation
-function transformToMExpr(items: ImpVal[], dict: WordDict): ImpVal[] {
-  // Check if there are any commas in the sequence
-  const hasComma = items.some(item => item[0] === ImpT.SEP && item[2] === ',')
-
-  if (hasComma) {
-    // Handle comma threading
-    return transformCommas(items, dict)
+// The contents of a list.  Quoted lists are data and stay as they are.  In a
+// function literal nested in the code, the parameters are nouns whatever the
+// words outside name; a function body the evaluator is running (not inner)
+// already has its arguments among the words
+function parseList(x: ImpVal, ctx: Ctx, inner: boolean): ImpVal {
+  if (ImpQ.isTop(x)) return parsedList(x, parseSeq(sourceOf(x), ctx))
+  if (!ImpQ.isLst(x) || /^['`]/.test(x[1].open)) return x
+  const items = sourceOf(x)
+  let parsed: ImpVal[]
+  if (x[1].open === '{') {
+    const body: Ctx = {words: Object.create(ctx.words), deep: ctx.deep}
+    if (inner) for (const name of fnParams(items)) body.words[name] = imp.NIL
+    const sig = scanSignature(items)
+    parsed = sig ? [items[0], ...parseSeq(sig.body, body)] : parseSeq(items, body)
+  } else if (x[1].open === ':[') {
+    parsed = parseEntries(items, ctx)
   } else {
-    // No commas, use standard transformation
-    return transformNoComma(items, dict)
+    parsed = parseSeq(items, ctx)
+  }
+  return parsedList(x, parsed)
+}
+
+// A dictionary literal :[`key value; ...], whose values are expressions
+function parseEntries(items: ImpVal[], ctx: Ctx): ImpVal[] {
+  const out: ImpVal[] = []
+  let entry: ImpVal[] = []
+  const flush = () => {
+    if (entry.length) out.push(entry[0], ...parseSeq(entry.slice(1), ctx))
+    entry = []
+  }
+  for (const item of items) {
+    if (item[0] === ImpT.SEP) { flush(); out.push(item) }
+    else entry.push(item)
   }
+  flush()
+  return out
 }
@@ -1,5 +1,5 @@
 #!/usr/bin/node
-import { ImpT } from "./imp-core.mjs";
+import { ImpT, ImpTop, ImpErr } from "./imp-core.mjs";
 import { ImpLoader, lexerTable, TokT } from "./imp-load.mjs";
 import { impShow } from "./imp-show.mjs";
 import { impEval, impWords, setInputProvider, resetWords } from "./imp-eval.mjs";
@@ -13,12 +13,15 @@ import * as path from "path";
 // Parse command-line arguments
 let quietMode = false;
 let forceColor = false;
+let treeWalk = false;  // evaluate with the tree walker instead of the flat evaluator
 const args = process.argv.slice(2);
 for (let i = 0; i < args.length; i++) {
   if (args[i] === '-q' || args[i] === '--quiet') {
     quietMode = true;
   } else if (args[i] === '--color') {
     forceColor = true;
+  } else if (args[i] === '--tree') {
+    treeWalk = true;
   }
 }
 
@@ -28,6 +31,37 @@ const isTerminal = forceColor || process.stdout.isTTY;
 
 let il = new ImpLoader();
 
+// Print the loader's diagnostics, if any, and drop the input they came from
+function reportDiagnostics(il: ImpLoader): boolean {
+  if (!il.diagnostics.length) return false
+  for (let d of il.diagnostics) console.log("Error: " + d)
+  il.reset()
+  return true
+}
+
+// at the end of input, report whatever the loader was still waiting to see
+// closed (an unclosed bracket or ``` string)
+function reportUnclosed() {
+  if (!il.waiting) return
+  for (let d of il.finish().diagnostics) console.log("Error: " + d)
+}
+
+// The evaluation in progress, which Ctrl-C cancels with a ?limit error
+let running: AbortController | null = null
+
+async function evalTree(r: ImpTop | ImpErr) {
+  running = new AbortController()
+  try { return await impEval(r, treeWalk, {signal: running.signal}) }
+  finally { running = null }
+}
+
+// cancel the evaluation in progress; false if there is none
+function cancelEval(): boolean {
+  if (!running) return false
+  running.abort()
+  return true
+}
+
 // History file location
 const historyFile = path.join(os.homedir(), '.imp-history');
 
@@ -147,6 +181,8 @@ async function quietRepl() {
 
   setInputProvider(new REPLInputProvider());
 
+  process.on('SIGINT', () => { if (!cancelEval()) process.exit(130) });
+
   // Process lines without prompting
   for await (const line of lineIterator) {
     const trimmed = line.trim()
@@ -158,16 +194,19 @@ async function quietRepl() {
     }
 
     try {
-      il.send(line)
+      il.sendLine(line)
+      if (reportDiagnostics(il)) continue
+      if (il.waiting) continue  // inside brackets or a ``` string: keep reading
       let r = il.read()
       if (r) {
-        let e = await impEval(r)
+        let e = await evalTree(r)
         if (e[0] !== ImpT.NIL) console.log(impShow(e))
       }
     } catch (e) {
       console.log("Error: " + e)
     }
   }
+  reportUnclosed()
 
   setInputProvider(null);
 }
@@ -219,6 +258,7 @@ async function interactiveRepl() {
   const promptColor = '\x1b[38;5;173m';  // Orange color (same as keywords)
   const resetColor = '\x1b[0m';
   const promptText = isTerminal ? `${promptColor}>${resetColor} ` : '> ';
+  const morePrompt = isTerminal ? `${promptColor}.${resetColor} ` : '. ';  // continuation lines
   rl.setPrompt(promptText);
 
   // Add syntax highlighting to input line if we're in a terminal
@@ -335,6 +375,10 @@ async function interactiveRepl() {
     });
   }
 
+  // Ctrl-C cancels the evaluation in progress; otherwise it ends the REPL,
+  // as readline would without this listener
+  rl.on('SIGINT', () => { if (!cancelEval()) rl.close() });
+
   // Create an async iterator that we control
   const lineIterator = rl[Symbol.asyncIterator]();
 
@@ -366,10 +410,13 @@ async function interactiveRepl() {
     }
 
     try {
-      il.send(line)
+      il.sendLine(line)
+      if (reportDiagnostics(il)) { rl.setPrompt(promptText); rl.prompt(); continue }
+      if (il.waiting) { rl.setPrompt(morePrompt); rl.prompt(); continue }
+      rl.setPrompt(promptText)
       let r = il.read()
       if (r) {
-        let e = await impEval(r)
+        let e = await evalTree(r)
         if (e[0] !== ImpT.NIL) {
           const output = impShow(e)
           console.log(isTerminal ? highlightCode(output) : output)
@@ -383,6 +430,7 @@ async function interactiveRepl() {
 
   // Clean up when REPL exits
   console.log(); // Add final newline on exit (e.g., when Ctrl+D is pressed)
+  reportUnclosed()
   setInputProvider(null);
 }
 
@@ -10,15 +10,31 @@ export enum ImpT {
   // --- values with literal representation
   INT = 'INT',     // integer
   NUM = 'NUM',     // number (float/decimal/scientific notation)
+  BIG = 'BIG',     // arbitrary-precision integer (bigint)
+  CHR = 'CHR',     // character (a code point)
+  BOOL = 'BOOL',   // boolean (0 or 1)
+  DATE = 'DATE',   // date (days since 2000.01.01)
+  TIME = 'TIME',   // time of day (milliseconds since midnight)
+  TIMESTAMP = 'TIMESTAMP', // date and time (milliseconds since 2000.01.01)
+  TIMESPAN = 'TIMESPAN',   // duration (milliseconds)
   STR = 'STR',     // string
   MLS = 'MLS',     // multi-line string
   SYM = 'SYM',     // symbol
   LST = 'LST',     // list
   DCT = 'DCT',     // dictionary (key-value map)
+  TAB = 'TAB',     // table (dictionary of equal-length columns)
   // --- vector types (strands)
   INTs = 'INTs',   // vector of integers
   NUMs = 'NUMs',   // vector of numbers
+  BIGs = 'BIGs',   // vector of big integers
   SYMs = 'SYMs',   // vector of symbols (backtick style only)
+  CHRs = 'CHRs',   // vector of characters
+  BOOLs = 'BOOLs', // vector of booleans
+  BYTEs = 'BYTEs', // vector of bytes (0-255)
+  DATEs = 'DATEs', // vector of dates
+  TIMEs = 'TIMEs', // vector of times
+  TIMESTAMPs = 'TIMESTAMPs', // vector of timestamps
+  TIMESPANs = 'TIMESPANs',   // vector of timespans
   // ---- internal / refined types (require eval() to produce)
   NIL = 'NIL',     // empty/unit value
   JSF = 'JSF',     // javascript function
@@ -50,23 +66,44 @@ export type ImpSymA = { kind: SymT }
 export type ImpLstA = { open:string, close:string }
 export type ImpDctA = { /* metadata for dictionaries */ }
 export type ImpJsfA = {arity:number, sourceIfn?:ImpVal, capturedArgs?:ImpVal[], sourceName?:string}
-export type ImpIfnA = {arity:number, body:ImpVal[]}
+// word bindings; nested scopes chain to their parent through the prototype
+export type ImpEnv = Record<string, ImpVal>
+export type ImpIfnA = {arity:number, body:ImpVal[], env?:ImpEnv, params?:string[]}
 
 // Individual types for each ImpVal variant
 export type ImpTop = [ImpT.TOP, null, ImpVal[]]
-export type ImpErr = [ImpT.ERR, null, string]
+// errors have a category (`?type`, `?domain`, ...), the value at fault, and where they were raised
+export type ImpErrA = {kind: string, value?: ImpVal, loc?: SrcLoc}
+export type ImpErr = [ImpT.ERR, ImpErrA, string]
 export type ImpSep = [ImpT.SEP, null, string]
 export type ImpEnd = [ImpT.END, null, null]
 export type ImpInt = [ImpT.INT, null, number]
 export type ImpNum = [ImpT.NUM, null, number]
+export type ImpBig = [ImpT.BIG, null, bigint]
 export type ImpStr = [ImpT.STR, null, string]
-export type ImpMls = [ImpT.MLS, null, string]
+export type ImpChr = [ImpT.CHR, null, number]
+export type ImpBool = [ImpT.BOOL, null, number]
+export type ImpDate = [ImpT.DATE, null, number]
+export type ImpTime = [ImpT.TIME, null, number]
+export type ImpTimestamp = [ImpT.TIMESTAMP, null, number]
+export type ImpTimespan = [ImpT.TIMESPAN, null, number]
+export type ImpMlsA = { lang?: string }  // info-string after the opening fence
+export type ImpMls = [ImpT.MLS, ImpMlsA | null, string]
 export type ImpSym = [ImpT.SYM, ImpSymA, symbol]
 export type ImpLst = [ImpT.LST, ImpLstA, ImpVal[]]
 export type ImpDct = [ImpT.DCT, ImpDctA | null, Map<string, ImpVal>]
+export type ImpTab = [ImpT.TAB, null, Map<string, ImpVal>]
 export type ImpInts = [ImpT.INTs, null, number[]]
 export type ImpNums = [ImpT.NUMs, null, number[]]
+export type ImpBigs = [ImpT.BIGs, null, bigint[]]
 export type ImpSyms = [ImpT.SYMs, null, symbol[]]
+export type ImpChrs = [ImpT.CHRs, null, number[]]
+export type ImpBools = [ImpT.BOOLs, null, number[]]
+export type ImpBytes = [ImpT.BYTEs, null, number[]]
+export type ImpDates = [ImpT.DATEs, null, number[]]
+export type ImpTimes = [ImpT.TIMEs, null, number[]]
+export type ImpTimestamps = [ImpT.TIMESTAMPs, null, number[]]
+export type ImpTimespans = [ImpT.TIMESPANs, null, number[]]
 export type ImpNil = [ImpT.NIL, null, null]
 export type ImpJsf = [ImpT.JSF, ImpJsfA, JSF]
 export type ImpIfn = [ImpT.IFN, ImpIfnA, ImpVal[]]
@@ -74,8 +111,10 @@ export type ImpIfn = [ImpT.IFN, ImpIfnA, ImpVal[]]
 // Main discriminated union type (equivalent to union of individual types above)
 export type ImpVal
   = ImpTop | ImpErr | ImpSep | ImpEnd
-  | ImpInt | ImpNum | ImpStr | ImpMls | ImpSym | ImpLst | ImpDct
-  | ImpInts | ImpNums | ImpSyms | ImpNil
+  | ImpInt | ImpNum | ImpBig | ImpChr | ImpBool | ImpStr | ImpMls | ImpSym | ImpLst | ImpDct | ImpTab
+  | ImpDate | ImpTime | ImpTimestamp | ImpTimespan
+  | ImpInts | ImpNums | ImpBigs | ImpSyms | ImpChrs | ImpBools | ImpBytes | ImpNil
+  | ImpDates | ImpTimes | ImpTimestamps | ImpTimespans
   | ImpJsf | ImpIfn
 
 // Syntactic sugar: utility object with methods on ImpVal
@@ -84,6 +123,7 @@ export const ImpQ = {
   isSym(x: ImpVal): x is ImpSym { return x[0] === ImpT.SYM },
   isLst(x: ImpVal): x is ImpLst { return x[0] === ImpT.LST },
   isDct(x: ImpVal): x is ImpDct { return x[0] === ImpT.DCT },
+  isTab(x: ImpVal): x is ImpTab { return x[0] === ImpT.TAB },
   isIfn(x: ImpVal): x is ImpIfn { return x[0] === ImpT.IFN },
 };
 
@@ -94,20 +134,95 @@ export const ImpC = {
     if (typeof x === 'number') return ImpC.int(Math.floor(x))
     throw new Error(`nyi ImpC.any(${x})`)},
   top(x:ImpVal[]):ImpTop { return [ImpT.TOP, null, x]},
-  err(x:string):ImpErr { return [ImpT.ERR, null, x]},
+  err(x:string, kind = 'error', value?:ImpVal):ImpErr { return [ImpT.ERR, {kind, value}, x]},
   int(x:number):ImpInt { return [ImpT.INT, null, x]},
   num(x:number):ImpNum { return [ImpT.NUM, null, x]},
+  big(x:bigint):ImpBig { return [ImpT.BIG, null, x]},
+  chr(x:number):ImpChr { return [ImpT.CHR, null, x]},
+  bool(x:number):ImpBool { return [ImpT.BOOL, null, x ? 1 : 0]},
+  date(x:number):ImpDate { return [ImpT.DATE, null, x]},
+  time(x:number):ImpTime { return [ImpT.TIME, null, x]},
+  timestamp(x:number):ImpTimestamp { return [ImpT.TIMESTAMP, null, x]},
+  timespan(x:number):ImpTimespan { return [ImpT.TIMESPAN, null, x]},
   str(x:string):ImpStr { return [ImpT.STR, null, x]},
   sym(x:symbol, kind:SymT = SymT.RAW):ImpSym { return [ImpT.SYM, {kind}, x]},
   sep(x:string):ImpSep { return [ImpT.SEP, null, x]},
-  mls(x:string):ImpMls { return [ImpT.MLS, null, x]},
+  mls(x:string, lang?:string):ImpMls { return [ImpT.MLS, lang ? {lang} : null, x]},
   ints(x:number[]):ImpInts { return [ImpT.INTs, null, x]},
   nums(x:number[]):ImpNums { return [ImpT.NUMs, null, x]},
+  bigs(x:bigint[]):ImpBigs { return [ImpT.BIGs, null, x]},
   syms(x:symbol[]):ImpSyms { return [ImpT.SYMs, null, x]},
+  chrs(x:number[]):ImpChrs { return [ImpT.CHRs, null, x]},
+  bools(x:number[]):ImpBools { return [ImpT.BOOLs, null, x.map(b => b ? 1 : 0)]},
+  bytes(x:number[]):ImpBytes { return [ImpT.BYTEs, null, x.map(b => b & 0xff)]},
+  dates(x:number[]):ImpDates { return [ImpT.DATEs, null, x]},
+  times(x:number[]):ImpTimes { return [ImpT.TIMEs, null, x]},
+  timestamps(x:number[]):ImpTimestamps { return [ImpT.TIMESTAMPs, null, x]},
+  timespans(x:number[]):ImpTimespans { return [ImpT.TIMESPANs, null, x]},
   dct(x?:Map<string, ImpVal>):ImpDct { return [ImpT.DCT, null, x || new Map()]},
-  ifn(arity:number, body:ImpVal[]):ImpIfn { return [ImpT.IFN, {arity, body}, body]},
+  tab(x:Map<string, ImpVal>):ImpTab { return [ImpT.TAB, null, x]},
+  ifn(arity:number, body:ImpVal[], env?:ImpEnv, params?:string[]):ImpIfn {
+    return [ImpT.IFN, {arity, body, env, params}, body]},
 }
 
+// -- source locations --------------------------------------------------
+
+// source text, shared by its locations: the lines from line `first` (1 if absent) on
+export type SrcFile = {name: string, lines: string[], first?: number}
+export type SrcLoc = {src: SrcFile, line: number, col: number, len: number}  // 1-based
+
+// Locations live in a side table so ImpVal tuples keep their shape
+const srcLocs = new WeakMap<ImpVal, SrcLoc>()
+
+export const ImpLoc = {
+  get(x: ImpVal): SrcLoc | undefined { return srcLocs.get(x) },
+  set<T extends ImpVal>(x: T, loc?: SrcLoc): T { if (loc) srcLocs.set(x, loc); return x },
+  copy<T extends ImpVal>(x: T, from: ImpVal): T { return ImpLoc.set(x, srcLocs.get(from)) },
+  where(loc: SrcLoc): string { return `${loc.src.name}:${loc.line}:${loc.col}` },
+  /** "file:line:col" followed by the source line with the token underlined */
+  show(loc: SrcLoc): string {
+    let text = loc.src.lines[loc.line - (loc.src.first ?? 1)] ?? ''
+    let pad = text.slice(0, loc.col - 1).replace(/[^\t]/g, ' ')
+    return `${ImpLoc.where(loc)}\n  ${text}\n  ${pad}${'^'.repeat(Math.max(1, loc.len))}`},
+}
+
+// -- trivia -------------------------------------------------------------
+
+/** Comments kept by a trivia-preserving load: `before` a value, or `after`
+ * the last item of a list (or of the whole input) */
+export type ImpNotes = {before: string[], after: string[]}
+
+const notes = new WeakMap<ImpVal, ImpNotes>()
+
+export const ImpTrivia = {
+  get(x: ImpVal): ImpNotes | undefined { return notes.get(x) },
+  add(x: ImpVal, where: keyof ImpNotes, texts: string[]): void {
+    if (!texts.length) return
+    let n = notes.get(x) ?? {before: [], after: []}
+    n[where].push(...texts)
+    notes.set(x, n)},
+}
+
+/** A raised implish error. `kind` is the category: type, domain, length, rank,
+ * value (undefined word), valence, io, nyi (not yet implemented), parse, or
+ * whatever a script passes to `throw`. Anything else thrown becomes `error`. */
+export class ImpError extends Error {
+  kind: string
+  value?: ImpVal
+  loc?: SrcLoc
+  constructor(kind: string, message: string, value?: ImpVal, loc?: SrcLoc) {
+    super(message); this.kind = kind; this.value = value; this.loc = loc }
+  toString() { return this.loc ? `${this.message} at ${ImpLoc.show(this.loc)}` : this.message }
+  /** The error as an implish value, for `catch` and `try` */
+  get imp(): ImpErr { return [ImpT.ERR, {kind: this.kind, value: this.value, loc: this.loc}, this.message] }
+  /** Raise an error value again, keeping the location it was first raised at */
+  static from(x: ImpErr): ImpError { return new ImpError(x[1].kind, x[2], x[1].value, x[1].loc) }
+  /** Wrap anything thrown, keeping the innermost location already attached */
+  static at(e: unknown, loc?: SrcLoc): ImpError {
+    let err = e instanceof ImpError ? e : new ImpError('error', e instanceof Error ? e.message : String(e))
+    if (!err.loc) err.loc = loc
+    return err }}
+
 export enum ImpP {  // parts of speech
   V = 'V',     // verb
   N = 'N',     // noun (data)
@@ -124,6 +239,7 @@ export enum ImpP {  // parts of speech
 export const NIL:ImpVal = [ImpT.NIL, null, null];  // the empty value
 export const END:ImpVal = [ImpT.END, null, null];  // the virtual end token
 export const NULL_INT = -2147483648;              // K's 0N (null integer, using min i32 for JS compat)
+export const isNullNum = (n: number) => n === NULL_INT || Number.isNaN(n)  // 0N or K's float null 0n (NaN)
 
 export class SymTable {
   symTab: Record<string, symbol> = {}
@@ -0,0 +1,84 @@
+/** Delimited text (CSV, TSV) to and from tables
+ * The first line holds the column names.  Each column gets the narrowest type
+ * that fits every non-empty cell: INT, then NUM, then SYM, else STR.
+ */
+import * as imp from './imp-core.mjs'
+import {ImpT, ImpVal, ImpC, ImpQ, ImpTab, ImpError, NULL_INT, isNullNum} from './imp-core.mjs'
+import {colItems, tabFromDct, tabCount} from './imp-table.mjs'
+import {impShow} from './imp-show.mjs'
+
+// split text into rows of fields, honouring "quoted" fields, which may hold
+// the separator, newlines, and "" for a literal quote
+export function parseRows(text: string, sep: string): string[][] {
+  let rows: string[][] = [], row: string[] = [], field = '', i = 0, quoted = false
+  while (i < text.length) {
+    let c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i+1] === '"') { field += '"'; i += 2; continue }
+      if (c === '"') { quoted = false; i++; continue }
+      field += c; i++; continue
+    }
+    if (c === '"' && field === '') { quoted = true; i++ }
+    else if (c === sep) { row.push(field); field = ''; i++ }
+    else if (c === '\n' || c === '\r') {
+      row.push(field); rows.push(row); row = []; field = ''
+      i += (c === '\r' && text[i+1] === '\n') ? 2 : 1
+    }
+    else { field += c; i++ }
+  }
+  if (quoted) throw new ImpError('parse', 'unterminated quoted field')
+  if (field !== '' || row.length) { row.push(field); rows.push(row) }
+  return rows
+}
+
+const isInt = (s: string) => /^[-+]?\d+$/.test(s)
+const isNum = (s: string) => /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(s)
+const isSym = (s: string) => /^[A-Za-z_][A-Za-z0-9_.-]*$/.test(s)
+
+// a column from its cells; empty cells become nulls of the column's type
+function inferColumn(cells: string[]): ImpVal {
+  let full = cells.filter(s => s !== '')
+  if (full.length && full.every(isInt)) return ImpC.ints(cells.map(s => s === '' ? NULL_INT : parseInt(s)))
+  if (full.length && full.every(isNum)) return ImpC.nums(cells.map(s => s === '' ? NaN : parseFloat(s)))
+  if (full.length && full.every(isSym)) return ImpC.syms(cells.map(s => Symbol(s)))
+  return imp.lst(undefined, cells.map(s => ImpC.str(s)))
+}
+
+export function tabFromText(text: string, sep: string): ImpTab {
+  let [header, ...rows] = parseRows(text, sep)
+  if (!header) throw new ImpError('domain', 'no header row')
+  rows = rows.filter(r => r.length > 1 || r[0] !== '')  // skip blank lines
+  rows.forEach((r, i) => {
+    if (r.length > header.length) throw new ImpError('length', `row ${i + 1} has ${r.length} fields, expected ${header.length}`)
+  })
+  let cols = new Map<string, ImpVal>()
+  header.forEach((name, j) => {
+    if (cols.has(name)) throw new ImpError('domain', `duplicate column: ${name}`, ImpC.str(name))
+    cols.set(name, inferColumn(rows.map(r => r[j] ?? '')))
+  })
+  return tabFromDct(imp.dct(cols))
+}
+
+// the text of one cell; nulls are written as empty cells
+function cellText(x: ImpVal): string {
+  switch (x[0]) {
+    case ImpT.INT: case ImpT.NUM: return isNullNum(x[2]) ? '' : String(x[2])
+    case ImpT.BOOL: case ImpT.BIG: return String(x[2])
+    case ImpT.CHR: return String.fromCodePoint(x[2])
+    case ImpT.STR: return x[2]
+    case ImpT.NIL: return ''
+    default: return ImpQ.isSym(x) ? x[2].description ?? '' : impShow(x)
+  }
+}
+
+function quote(s: string, sep: string): string {
+  return (s.includes(sep) || /["\r\n]/.test(s) || s !== s.trim()) ? '"' + s.replace(/"/g, '""') + '"' : s
+}
+
+export function tabToText(t: ImpTab, sep: string): string {
+  let names = [...t[2].keys()]
+  let cols = [...t[2].values()].map(colItems)
+  let lines = [names.map(n => quote(n, sep)).join(sep)]
+  for (let i = 0; i < tabCount(t); i++) lines.push(cols.map(col => quote(cellText(col[i]), sep)).join(sep))
+  return lines.join('\n') + '\n'
+}
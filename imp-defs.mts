@@ -10,15 +10,24 @@ import {
   ImpQ,
   ImpLst,
   ImpLstA,
+  ImpTab,
+  ImpErr,
+  ImpError,
+  ImpLoc,
+  ImpTrivia,
 } from './imp-core.mjs'
 import {impShow} from './imp-show.mjs'
-import {load} from './imp-load.mjs'
+import {load, loadStream, ImpLoader, lexerTable, TokT, type LexRule} from './imp-load.mjs'
 import {impEval} from './imp-eval.mjs'
 import {imparse} from './im-parse.mjs'
 import {toNativePath} from './lib-file.mjs'
+import {tabFromText, tabToText} from './imp-csv.mjs'
+import {fromJson, toJson} from './imp-json.mjs'
+import {DAY, type TimeUnit, timeUnit, timeAtom, timeVec, isTimeVec, castTime} from './imp-time.mjs'
+import {colItems, colOf, groupRows, binSearch, tabFromDct, tabCount, tabRow, tabRows, tabFromRows, tabTake, tabColumn, select, exec, update, del, lj, ij, uj, aj} from './imp-table.mjs'
 
 // Import ImpEvaluator type - we need this for 'this' context
-import type {ImpEvaluator} from './imp-eval.mjs'
+import type {ImpEvaluator, ImpLimits} from './imp-eval.mjs'
 
 // Node.js modules - only available in Node.js environment
 let fs: any = null
@@ -79,7 +88,7 @@ class NodeReadlineProvider implements InputProvider {
 // Fallback provider for non-interactive contexts (piped input, etc.)
 class NodeStdinProvider implements InputProvider {
   async readLine(): Promise<string> {
-    if (!readline) throw 'readline not available'
+    if (!readline) throw new ImpError('io', 'readline not available')
     return new Promise((resolve) => {
       const rl = readline.createInterface({
         input: process.stdin,
@@ -127,13 +136,13 @@ async function readLine(): Promise<string> {
 async function readContent(x: ImpVal): Promise<string> {
   // Check if it's a FILE symbol
   if (ImpQ.isSym(x) && x[1].kind === SymT.FILE) {
-    if (!fs) throw 'File reading not available in browser environment'
+    if (!fs) throw new ImpError('io', 'File reading not available in browser environment')
     let filepath = toNativePath(x[2].description!)
 
     try {
       return fs.readFileSync(filepath, 'utf8')
     } catch (e: any) {
-      throw `Failed to read file: ${filepath} - ${e.message}`
+      throw new ImpError('io', `Failed to read file: ${filepath} - ${e.message}`)
     }
   }
   // Check if it's a URL symbol
@@ -147,7 +156,7 @@ async function readContent(x: ImpVal): Promise<string> {
         if (!response.ok) throw new Error(`HTTP ${response.status}`)
         return await response.text()
       } catch (e: any) {
-        throw `Failed to fetch URL: ${url} - ${e.message}`
+        throw new ImpError('io', `Failed to fetch URL: ${url} - ${e.message}`)
       }
     }
 
@@ -163,33 +172,132 @@ async function readContent(x: ImpVal): Promise<string> {
   }
   // String fallback (treat as filepath)
   else if (x[0] === ImpT.STR) {
-    if (!fs) throw 'File reading not available in browser environment'
+    if (!fs) throw new ImpError('io', 'File reading not available in browser environment')
     let filepath = x[2] as string
     try {
       return fs.readFileSync(filepath, 'utf8')
     } catch (e: any) {
-      throw `Failed to read file: ${filepath} - ${e.message}`
+      throw new ImpError('io', `Failed to read file: ${filepath} - ${e.message}`)
     }
   }
   else {
-    throw 'read expects a %file, URL, or string filepath'
+    throw new ImpError('type', 'read expects a %file, URL, or string filepath')
   }
 }
 
 // Helper function to get numeric value from INT, NUM, STR (as char codes), or vector types
+// (characters are their code points, booleans 0 and 1)
 function getNum(x: ImpVal): number | number[] {
-  if (x[0] === ImpT.INT || x[0] === ImpT.NUM) return x[2] as number
-  if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) return x[2] as number[]
+  switch (x[0]) {
+    case ImpT.INT: case ImpT.NUM: case ImpT.CHR: case ImpT.BOOL: return x[2]
+    case ImpT.INTs: case ImpT.NUMs: case ImpT.CHRs: case ImpT.BOOLs: case ImpT.BYTEs: return x[2]
+    case ImpT.DATE: case ImpT.TIME: case ImpT.TIMESTAMP: case ImpT.TIMESPAN: return x[2]
+    case ImpT.DATEs: case ImpT.TIMEs: case ImpT.TIMESTAMPs: case ImpT.TIMESPANs: return x[2]
+    case ImpT.BIG: return Number(x[2])
+    case ImpT.BIGs: return x[2].map(Number)
+  }
   // Handle strings as character code vectors (K behavior)
   if (x[0] === ImpT.STR) {
     const str = x[2] as string
     return str.split('').map(c => c.charCodeAt(0))
   }
-  throw "expected number or vector, got: " + x[0]
+  throw new ImpError('type', "expected number or vector, got: " + x[0], x)
+}
+
+// An integer value (or vector) as bigints; null for floats, nulls and other types
+function getBig(x: ImpVal): bigint | bigint[] | null {
+  const whole = (n: number) => Number.isInteger(n) && n !== imp.NULL_INT
+  switch (x[0]) {
+    case ImpT.BIG: case ImpT.BIGs: return x[2]
+    case ImpT.INT: case ImpT.BOOL: return whole(x[2]) ? BigInt(x[2]) : null
+    case ImpT.INTs: case ImpT.BOOLs: case ImpT.BYTEs: return x[2].every(whole) ? x[2].map(n => BigInt(n)) : null
+    default: return null
+  }
+}
+
+// The nulls: 0N, 0n, the temporal nulls (0Nd ...), the null symbol (a bare backtick) and nil
+function isNull(x: ImpVal): boolean {
+  switch (x[0]) {
+    case ImpT.NIL: return true
+    case ImpT.INT: case ImpT.NUM: return imp.isNullNum(x[2])
+    case ImpT.DATE: case ImpT.TIME: case ImpT.TIMESTAMP: case ImpT.TIMESPAN: return x[2] === imp.NULL_INT
+    case ImpT.SYM: return x[1].kind === SymT.BQT && (x[2].description ?? '') === ''
+    default: return false
+  }
+}
+
+// The bigint versions of the arithmetic and comparison words
+type BigOp = (a: bigint, b: bigint) => bigint | number
+const bigDiv = (a: bigint, b: bigint): bigint =>  // floored, like Math.floor(a/b)
+  a / b - ((a % b !== 0n) && ((a < 0n) !== (b < 0n)) ? 1n : 0n)
+const bigOps: Record<string, BigOp> = {
+  '+': (a,b)=>a+b, '-': (a,b)=>a-b, '*': (a,b)=>a*b,
+  '%': (a,b)=>b === 0n ? Math.floor(Number(a) / 0) : bigDiv(a, b),
+  '^': (a,b)=>b < 0n ? Number(a) ** Number(b) : a ** b,
+  'min': (a,b)=>a < b ? a : b, 'max': (a,b)=>a > b ? a : b,
+  '<': (a,b)=>a<b ? 1 : 0, '>': (a,b)=>a>b ? 1 : 0, '<=': (a,b)=>a<=b ? 1 : 0, '>=': (a,b)=>a>=b ? 1 : 0,
+  '=': (a,b)=>a===b ? 1 : 0, '~=': (a,b)=>a!==b ? 1 : 0}
+
+// Apply a bigint operation element-wise; bigint results make BIG (or BIGs),
+// numbers (from comparisons) INT.  Returns null unless both sides are integers
+function bigWise(op: BigOp, x: ImpVal, y: ImpVal): ImpVal | null {
+  const xs = getBig(x), ys = getBig(y)
+  if (xs === null || ys === null) return null
+  const wrap = (rs: (bigint | number)[]): ImpVal =>
+    rs.every(r => typeof r === 'bigint') ? ImpC.bigs(rs as bigint[]) : ImpC.ints(rs.map(Number))
+  if (!Array.isArray(xs) && !Array.isArray(ys)) {
+    const r = op(xs, ys)
+    return typeof r === 'bigint' ? ImpC.big(r) : ImpC.int(r)
+  }
+  if (!Array.isArray(xs)) return wrap((ys as bigint[]).map(b => op(xs, b)))
+  if (!Array.isArray(ys)) return wrap(xs.map(a => op(a, ys)))
+  if (xs.length !== ys.length) throw new ImpError('length', "vector length mismatch")
+  return wrap(xs.map((a, i) => op(a, ys[i])))
+}
+
+// Helper for right-atomic operations worked in bigints; null unless x is integral
+function bigRight(op: (a: bigint) => bigint, x: ImpVal): ImpVal | null {
+  const xs = getBig(x)
+  if (xs === null) return null
+  return Array.isArray(xs) ? ImpC.bigs(xs.map(op)) : ImpC.big(op(xs))
+}
+
+// true if an integer result lost precision (past 2^53, or overflowed to infinity)
+function inexact(r: ImpVal): boolean {
+  const lost = (n: number) => Number.isFinite(n) ? Number.isInteger(n) && !Number.isSafeInteger(n) : !Number.isNaN(n)
+  return Array.isArray(r[2]) ? (r[2] as number[]).some(lost) : lost(r[2] as number)
 }
 
 // Helper function to apply binary operation element-wise (fully atomic)
-function elemWise(op: (a: number, b: number) => number, x: ImpVal, y: ImpVal): ImpVal {
+// With a bigint version of the operation, BIG operands (and integer results
+// too large for a double) are worked in bigints instead
+// A null operand makes a null result: 0n if either side is a float, else 0N
+function elemWise(op: (a: number, b: number) => number, x: ImpVal, y: ImpVal, big?: BigOp): ImpVal {
+  if (big && (x[0] === ImpT.BIG || x[0] === ImpT.BIGs || y[0] === ImpT.BIG || y[0] === ImpT.BIGs)) {
+    return bigWise(big, x, y) ?? elemWise(op, x, y)
+  }
+  const nul = [x[0], y[0]].some(t => t === ImpT.NUM || t === ImpT.NUMs) ? NaN : imp.NULL_INT
+  const r = numWise((a, b) => !imp.isNullNum(a) && !imp.isNullNum(b) ? op(a, b)
+    : Number.isNaN(a) || Number.isNaN(b) ? NaN : nul, x, y)
+  return big && inexact(r) ? bigWise(big, x, y) ?? r : r
+}
+
+// Helper for the comparison words: like elemWise, but nulls sort before
+// every number (so 0N < 1 and 0n = 0n, as in K) rather than propagating.
+// Comparing booleans with booleans gives booleans
+function compareWise(test: (a: number, b: number) => boolean, x: ImpVal, y: ImpVal, big?: BigOp): ImpVal {
+  if (big && (x[0] === ImpT.BIG || x[0] === ImpT.BIGs || y[0] === ImpT.BIG || y[0] === ImpT.BIGs)) {
+    const r = bigWise(big, x, y)
+    if (r) return r
+  }
+  const key = (n: number) => imp.isNullNum(n) ? -Infinity : n
+  const r = numWise((a, b) => test(key(a), key(b)) ? 1 : 0, x, y)
+  const isBool = (v: ImpVal) => v[0] === ImpT.BOOL || v[0] === ImpT.BOOLs
+  if (!isBool(x) || !isBool(y)) return r
+  return r[0] === ImpT.INT ? ImpC.bool(r[2] as number) : ImpC.bools(r[2] as number[])
+}
+
+function numWise(op: (a: number, b: number) => number, x: ImpVal, y: ImpVal): ImpVal {
   let xVal = getNum(x)
   let yVal = getNum(y)
 
@@ -210,28 +318,76 @@ function elemWise(op: (a: number, b: number) => number, x: ImpVal, y: ImpVal): I
 
   // Both vectors - element-wise (must be same length)
   if (Array.isArray(xVal) && Array.isArray(yVal)) {
-    if (xVal.length !== yVal.length) throw "vector length mismatch"
+    if (xVal.length !== yVal.length) throw new ImpError('length', "vector length mismatch")
     return ImpC.ints(xVal.map((a, i) => op(a, yVal[i])))
   }
 
-  throw "invalid operands"
+  throw new ImpError('type', "invalid operands")
+}
+
+// Helper for comparing symbols by name, element-wise (so `sym = \`a` works in queries)
+// Returns null unless both sides are symbols or symbol vectors
+function symWise(op: (a: string, b: string) => number, x: ImpVal, y: ImpVal): ImpVal | null {
+  const names = (v: ImpVal): string | string[] | null =>
+    ImpQ.isSym(v) ? v[2].description ?? '' :
+    v[0] === ImpT.SYMs ? (v[2] as symbol[]).map(s => s.description ?? '') : null
+  const xs = names(x), ys = names(y)
+  if (xs === null || ys === null) return null
+  if (typeof xs === 'string' && typeof ys === 'string') return ImpC.int(op(xs, ys))
+  if (typeof xs === 'string') return ImpC.ints((ys as string[]).map(b => op(xs, b)))
+  if (typeof ys === 'string') return ImpC.ints(xs.map(a => op(a, ys)))
+  if (xs.length !== ys.length) throw new ImpError('length', "vector length mismatch")
+  return ImpC.ints(xs.map((a, i) => op(a, ys[i])))
+}
+
+// Helper for arithmetic and comparisons on dates and times.  The numbers are
+// worked by elemWise, and the result takes the temporal type the rules give
+// (`i` stands for a plain number).  A date meeting a time, timespan or timestamp
+// counts as a timestamp at midnight.  Returns null unless x or y is temporal
+const timeRules = new Map(`
+  d+i=d i+d=d t+i=t i+t=t t+n=t n+t=t p+i=p i+p=p p+n=p n+p=p p+t=p t+p=p n+n=n n+i=n i+n=n
+  d-i=d d-d=i t-i=t t-n=t t-t=n p-i=p p-n=p p-t=p p-p=n n-n=n n-i=n
+  n*i=n i*n=n n%i=n n%n=i`.trim().split(/\s+/).map(r => r.split('=') as [string, string]))
+const timeOps: Record<string, (a: number, b: number) => number> = {
+  '+': (a,b)=>a+b, '-': (a,b)=>a-b, '*': (a,b)=>a*b, '%': (a,b)=>Math.floor(a/b),
+  'min': (a,b)=>Math.min(a,b), 'max': (a,b)=>Math.max(a,b),
+  '<': (a,b)=>a<b ? 1 : 0, '>': (a,b)=>a>b ? 1 : 0, '<=': (a,b)=>a<=b ? 1 : 0, '>=': (a,b)=>a>=b ? 1 : 0,
+  '=': (a,b)=>a===b ? 1 : 0, '~=': (a,b)=>a!==b ? 1 : 0}
+function timeWise(op: string, x: ImpVal, y: ImpVal): ImpVal | null {
+  let xu = timeUnit(x[0]), yu = timeUnit(y[0])
+  if (!xu && !yu) return null
+  const names = `${x[0].toLowerCase()} and ${y[0].toLowerCase()}`
+  const atMidnight = (v: ImpVal): ImpVal => typeof v[2] === 'number'
+    ? ImpC.int(v[2] === imp.NULL_INT ? imp.NULL_INT : v[2] * DAY)
+    : ImpC.ints((v[2] as number[]).map(n => n === imp.NULL_INT ? imp.NULL_INT : n * DAY))
+  if (xu === 'd' && yu && yu !== 'd') { x = atMidnight(x); xu = 'p' }
+  if (yu === 'd' && xu && xu !== 'd') { y = atMidnight(y); yu = 'p' }
+  let a = xu ?? 'i', b = yu ?? 'i', f = timeOps[op]
+  let unit = op.match(/[<>=]/) ? (a === b || a === 'i' || b === 'i' ? 'i' : undefined)
+    : op === 'min' || op === 'max' ? (a === b || b === 'i' ? a : a === 'i' ? b : undefined)
+    : timeRules.get(a + op + b)
+  if (!unit) throw new ImpError('type', `can't ${op} ${names}`)
+  let r = elemWise(unit === 'i' ? f : (p, q) => p === imp.NULL_INT || q === imp.NULL_INT ? imp.NULL_INT : f(p, q), x, y)
+  if (unit === 'i') return r
+  return [r[0] === ImpT.INT ? timeAtom(unit as TimeUnit) : timeVec(unit as TimeUnit), null, r[2]] as ImpVal
 }
 
 // Helper for right-atomic operations (monadic functions applied element-wise to right arg)
 function rightAtomic(op: (a: number) => number, x: ImpVal): ImpVal {
   let xVal = getNum(x)
+  const each = (a: number) => a === imp.NULL_INT ? a : op(a)  // 0N stays null (0n does by itself)
 
   // Scalar
   if (typeof xVal === 'number') {
-    return ImpC.int(op(xVal))
+    return ImpC.int(each(xVal))
   }
 
   // Vector - apply to each element
   if (Array.isArray(xVal)) {
-    return ImpC.ints(xVal.map(a => op(a)))
+    return ImpC.ints(xVal.map(each))
   }
 
-  throw "invalid operand"
+  throw new ImpError('type', "invalid operand")
 }
 
 // Helper for left-atomic operations (dyadic function applied element-wise to left arg)
@@ -257,41 +413,45 @@ function leftAtomic(op: (a: number, b: any) => any, x: ImpVal, y: ImpVal): ImpVa
     return imp.lst(undefined, results)
   }
 
-  throw "invalid operands"
+  throw new ImpError('type', "invalid operands")
 }
 
 // Helper to convert a value to an array representation
-// Returns [elements, isString] where isString indicates if we should convert back to string
-function toArray(x: ImpVal): [ImpVal[], boolean] {
+// Returns [elements, like]: the type to rebuild with fromArray (a string converts back to a string)
+function toArray(x: ImpVal): [ImpVal[], ImpT] {
   if (x[0] === ImpT.STR) {
     const str = x[2] as string
     const chars = str.split('').map(c => ImpC.str(c))
-    return [chars, true]
+    return [chars, x[0]]
   }
   if (ImpQ.isLst(x)) {
-    return [x[2] as ImpVal[], false]
+    return [x[2] as ImpVal[], x[0]]
   }
   if (x[0] === ImpT.INTs) {
     const nums = x[2] as number[]
-    return [nums.map(n => ImpC.int(n)), false]
+    return [nums.map(n => ImpC.int(n)), x[0]]
   }
   if (x[0] === ImpT.NUMs) {
     const nums = x[2] as number[]
-    return [nums.map(n => ImpC.num(n)), false]
+    return [nums.map(n => ImpC.num(n)), x[0]]
   }
   if (x[0] === ImpT.SYMs) {
     const syms = x[2] as symbol[]
-    return [syms.map(s => ImpC.sym(s, SymT.BQT)), false]
+    return [syms.map(s => ImpC.sym(s, SymT.BQT)), x[0]]
+  }
+  if (x[0] === ImpT.BIGs || x[0] === ImpT.CHRs || x[0] === ImpT.BOOLs || x[0] === ImpT.BYTEs || isTimeVec(x[0])) {
+    return [colItems(x), x[0]]
   }
-  throw "toArray expects list, vector, or string"
+  throw new ImpError('type', "toArray expects list, vector, or string", x)
 }
 
 // Helper to convert array back to appropriate type
-function fromArray(items: ImpVal[], wasString: boolean, attrs?: any): ImpVal {
-  if (wasString) {
+function fromArray(items: ImpVal[], like: ImpT, attrs?: any): ImpVal {
+  if (like === ImpT.STR) {
     // Convert back to string
     const str = items.map(item => {
       if (item[0] === ImpT.STR) return item[2] as string
+      if (item[0] === ImpT.CHR) return String.fromCodePoint(item[2])
       if (item[0] === ImpT.INT || item[0] === ImpT.NUM) return String.fromCharCode(item[2] as number)
       return String(item[2])
     }).join('')
@@ -309,6 +469,9 @@ function fromArray(items: ImpVal[], wasString: boolean, attrs?: any): ImpVal {
   const allNums = items.every(item => item[0] === ImpT.NUM)
   const allSyms = items.every(item => item[0] === ImpT.SYM)
 
+  if (allInts && like === ImpT.BYTEs && items.every(item => item[2] >= 0 && item[2] < 256)) {
+    return ImpC.bytes(items.map(item => item[2] as number))
+  }
   if (allInts) {
     return ImpC.ints(items.map(item => item[2] as number))
   }
@@ -318,11 +481,126 @@ function fromArray(items: ImpVal[], wasString: boolean, attrs?: any): ImpVal {
   if (allSyms) {
     return ImpC.syms(items.map(item => item[2] as symbol))
   }
+  if (items.length && items.every(item => item[0] === ImpT.BIG)) {
+    return ImpC.bigs(items.map(item => item[2] as bigint))
+  }
+  if (items.length && items.every(item => item[0] === ImpT.BOOL)) {
+    return ImpC.bools(items.map(item => item[2] as number))
+  }
+  if (items.length && items.every(item => item[0] === ImpT.CHR)) {
+    return ImpC.chrs(items.map(item => item[2] as number))
+  }
+  const unit = items.length ? timeUnit(items[0][0]) : undefined
+  if (unit && items.every(item => item[0] === items[0][0])) {
+    return [timeVec(unit), null, items.map(item => item[2] as number)] as ImpVal
+  }
 
   // Return as general list
   return imp.lst(attrs, items)
 }
 
+// csv, tsv and json take their text from a %file or URL, or else the string itself
+async function textOf(x: ImpVal): Promise<string> {
+  return x[0] === ImpT.STR ? x[2] as string : await readContent(x)
+}
+
+// a table, or a list of dictionaries taken as its rows
+function asTab(name: string, x: ImpVal): ImpTab {
+  if (ImpQ.isTab(x)) return x
+  if (ImpQ.isLst(x)) return tabFromRows((x[2] as ImpVal[]).filter(v => v[0] !== ImpT.SEP))
+  throw new ImpError('type', `${name} expects a table or a list of dictionaries`, x)
+}
+
+// Special forms (the evaluator's lazyEvalForms) receive each argument as an
+// unevaluated list; evaluate one on demand
+async function forceArg(ev: ImpEvaluator, x: ImpVal): Promise<ImpVal> {
+  return (ImpQ.isLst(x) || ImpQ.isTop(x)) ? await ev.lastEval(x) : x
+}
+
+// The clauses of select[cols; from; where; by]: only the table is evaluated here
+async function queryArgs(ev: ImpEvaluator, name: string, args: ImpVal[]) {
+  const [cols, from, where, by] = args
+  if (args.length < 2 || args.length > 4) throw new ImpError('valence', `${name} expects [cols; from; where; by]`)
+  const t = await forceArg(ev, from)
+  if (!ImpQ.isTab(t)) throw new ImpError('type', `${name}: expected a table to query`, t)
+  return {cols, from: t, where, by}
+}
+
+// Whether a condition holds, for ite, while and cond (K semantics): nil and
+// the zeros 0, 0b0, 0x00, #"\x00" and "\x00" are false, anything else true
+function truthy(x: ImpVal): boolean {
+  switch (x[0]) {
+    case ImpT.INT: case ImpT.NUM: case ImpT.BOOL: case ImpT.CHR: return x[2] !== 0
+    case ImpT.BIG: return x[2] !== 0n
+    case ImpT.BYTEs: return !(x[2].length === 1 && x[2][0] === 0)
+    case ImpT.STR: return x[2] !== "\x00"
+    case ImpT.NIL: return false
+    default: return true
+  }
+}
+
+function isFn(x: ImpVal): x is ImpJsf | ImpIfn {
+  return x[0] === ImpT.JSF || x[0] === ImpT.IFN
+}
+
+// Apply a function value (primitive, projection or implish function) to evaluated arguments
+async function applyFn(ev: ImpEvaluator, f: ImpJsf | ImpIfn, args: ImpVal[]): Promise<ImpVal> {
+  return f[0] === ImpT.IFN ? await ev.applyIfn(f, args) : await f[2].apply(ev, args)
+}
+
+// A dialect made by `loader`: its token table, and how each of its own token
+// types is handled (a function of the token text, or a standard token type)
+type Dialect = {table: LexRule[], handlers: Map<string, ImpJsf | ImpIfn | string>}
+const dialects = new WeakMap<ImpVal, Dialect>()
+
+function dialectOf(rules: ImpVal, base?: ImpVal): Dialect {
+  if (!ImpQ.isDct(rules)) throw new ImpError('type', "loader expects a dictionary of rules", rules)
+  let parent: Dialect = {table: lexerTable, handlers: new Map()}
+  if (base && base[0] === ImpT.NIL) parent = {table: [], handlers: new Map()}
+  else if (base) {
+    const d = dialects.get(base)
+    if (!d) throw new ImpError('type', "loader: base should be another loader, or nil", base)
+    parent = d }
+  const table: LexRule[] = [], handlers = new Map(parent.handlers)
+  for (const [name, spec] of rules[2]) {
+    const parts = ImpQ.isLst(spec) ? spec[2].filter(x => x[0] !== ImpT.SEP) : []
+    const [pat, how] = parts
+    if (parts.length !== 2 || pat[0] !== ImpT.STR) throw new ImpError('type', `loader: rule ${name} should be [pattern; handler]`, spec)
+    try { table.push([name, new RegExp('^(?:' + pat[2] + ')'), null]) }
+    catch (e: any) { throw new ImpError('domain', `loader: bad pattern for ${name}: ${e.message}`, pat) }
+    if (isFn(how)) handlers.set(name, how)
+    else if (ImpQ.isSym(how) && (Object.values(TokT) as string[]).includes(how[2].description!)) {
+      if (how[2].description !== name) handlers.set(name, how[2].description!) }
+    else throw new ImpError('type', `loader: handler for ${name} should be a function or a token type like \`raw`, how)
+  }
+  return {table: [...table, ...parent.table], handlers}
+}
+
+// Load text with a dialect.  Function handlers run after lexing (they may be
+// implish functions, which are async): the loader emits the token text as a
+// placeholder, and the placeholders are then replaced by the handlers' results.
+async function loadDialect(ev: ImpEvaluator, d: Dialect, text: string, name?: string): Promise<ImpVal> {
+  const il = new ImpLoader(name, {table: d.table})
+  const std = {...il.rules}, pending = new Map<ImpVal, ImpJsf | ImpIfn>()
+  for (const [type, how] of d.handlers) {
+    il.rules[type] = typeof how === 'string'
+      ? (tok, trim) => std[how](tok, trim, il)
+      : (tok) => { const p = ImpC.str(tok); pending.set(p, how); il.emit(p) }
+  }
+  const {tree, diagnostics} = il.send(text).finish()
+  if (diagnostics.length) throw diagnostics[0]
+  const resolve = async (xs: ImpVal[]) => {
+    for (let i = 0; i < xs.length; i++) {
+      const f = pending.get(xs[i])
+      if (f) {
+        const r = await applyFn(ev, f, [xs[i]])
+        xs[i] = ImpLoc.get(r) ? r : ImpLoc.copy(r, xs[i]) }
+      else if (ImpQ.isLst(xs[i])) await resolve(xs[i][2] as ImpVal[])
+    }}
+  await resolve(tree[2])
+  return tree
+}
+
 // Type-safe toXml using utility object for syntactic sugar
 function toXml(x: ImpVal): string {
   if (x[0] === ImpT.NIL) return '<nil/>';
@@ -346,14 +624,15 @@ function toXml(x: ImpVal): string {
   if (x[0] === ImpT.SYMs) {
     return xmlTag('imp:' + x[0].toLowerCase(), {v: (x[2] as symbol[]).map(s => s.description).join(' ')})
   }
-  // Handle dictionaries
-  if (ImpQ.isDct(x)) {
+  // Handle dictionaries (and tables, which are dictionaries of columns)
+  if (ImpQ.isDct(x) || ImpQ.isTab(x)) {
     const dct = x[2] as Map<string, ImpVal>
+    const tag = 'imp:' + x[0].toLowerCase()
     const entries: string[] = []
     for (const [key, val] of dct.entries()) {
       entries.push(`\n  <entry k="${key}">${toXml(val)}</entry>`)
     }
-    return `<imp:dct>${entries.join('')}\n</imp:dct>`
+    return `<${tag}>${entries.join('')}\n</${tag}>`
   }
   // For other types (SEP, INT, STR, MLS, JSF, JDY, END), treat as simple values
   return xmlTag('imp:' + x[0].toLowerCase(), {v: (x[2]??'').toString()})}
@@ -374,6 +653,13 @@ function wordClass(x:ImpVal) {
       case ImpT.SEP: return ImpP.E  // Treat separator as end-like (stops collection)
       case ImpT.INT: return ImpP.N
       case ImpT.NUM: return ImpP.N
+      case ImpT.BIG: return ImpP.N
+      case ImpT.CHR: return ImpP.N
+      case ImpT.BOOL: return ImpP.N
+      case ImpT.DATE: return ImpP.N
+      case ImpT.TIME: return ImpP.N
+      case ImpT.TIMESTAMP: return ImpP.N
+      case ImpT.TIMESPAN: return ImpP.N
       case ImpT.STR: return ImpP.N
       case ImpT.MLS: return ImpP.N
       case ImpT.SYM: return ImpP.N
@@ -381,12 +667,22 @@ function wordClass(x:ImpVal) {
       case ImpT.DCT: return ImpP.N
       case ImpT.INTs: return ImpP.N
       case ImpT.NUMs: return ImpP.N
+      case ImpT.BIGs: return ImpP.N
       case ImpT.SYMs: return ImpP.N
+      case ImpT.CHRs: return ImpP.N
+      case ImpT.BOOLs: return ImpP.N
+      case ImpT.BYTEs: return ImpP.N
+      case ImpT.DATEs: return ImpP.N
+      case ImpT.TIMEs: return ImpP.N
+      case ImpT.TIMESTAMPs: return ImpP.N
+      case ImpT.TIMESPANs: return ImpP.N
       // -- resolved symbols:
       case ImpT.JSF: return ImpP.V
       case ImpT.IFN: return ImpP.V
       case ImpT.NIL: return ImpP.N
-      default: throw "[wordClass] invalid argument:" + x }}
+      case ImpT.ERR: return ImpP.N
+      case ImpT.TAB: return ImpP.N
+      default: throw new ImpError('type', "[wordClass] invalid argument:" + x) }}
 
 // Export the word definitions
 export function createImpWords(): Record<string, ImpVal> {
@@ -396,57 +692,40 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // Control flow (these receive unevaluated LST/TOP arguments for lazy evaluation)
     'ite': imp.jsf(async function(this: ImpEvaluator, cond: ImpVal, thenBranch: ImpVal, elseBranch: ImpVal) {
+      // an ite in tail position (see ImpEvaluator.tailForm) passes it on to its branches
+      let branch = this.tailForm ? this.lastEvalTail : this.lastEval
+      this.tailForm = false
       // Type check: ensure we got LST or TOP values
       if (!ImpQ.isLst(cond) && !ImpQ.isTop(cond)) {
-        throw "ite: condition must be an unevaluated expression (LST or TOP)"
+        throw new ImpError('type', "ite: condition must be an unevaluated expression (LST or TOP)")
       }
       if (!ImpQ.isLst(thenBranch) && !ImpQ.isTop(thenBranch)) {
-        throw "ite: then branch must be an unevaluated expression (LST or TOP)"
+        throw new ImpError('type', "ite: then branch must be an unevaluated expression (LST or TOP)")
       }
       if (!ImpQ.isLst(elseBranch) && !ImpQ.isTop(elseBranch)) {
-        throw "ite: else branch must be an unevaluated expression (LST or TOP)"
-      }
-      // Evaluate condition
-      let condResult = await this.lastEval(cond)
-      // Check if truthy (non-zero, non-nil, non-empty)
-      let isTruthy = false
-      if (condResult[0] === ImpT.INT || condResult[0] === ImpT.NUM) {
-        isTruthy = (condResult[2] as number) !== 0
-      } else if (condResult[0] === ImpT.NIL) {
-        isTruthy = false
-      } else {
-        isTruthy = true  // Everything else is truthy
+        throw new ImpError('type', "ite: else branch must be an unevaluated expression (LST or TOP)")
       }
       // Evaluate and return appropriate branch
-      if (isTruthy) {
-        return await this.lastEval(thenBranch)
+      if (truthy(await this.lastEval(cond))) {
+        return await branch(thenBranch)
       } else {
-        return await this.lastEval(elseBranch)
+        return await branch(elseBranch)
       }
     }, 3),
 
     'while': imp.jsf(async function(this: ImpEvaluator, cond: ImpVal, body: ImpVal) {
       // Type check: ensure we got LST or TOP values
       if (!ImpQ.isLst(cond) && !ImpQ.isTop(cond)) {
-        throw "while: condition must be an unevaluated expression (LST or TOP)"
+        throw new ImpError('type', "while: condition must be an unevaluated expression (LST or TOP)")
       }
       if (!ImpQ.isLst(body) && !ImpQ.isTop(body)) {
-        throw "while: body must be an unevaluated expression (LST or TOP)"
+        throw new ImpError('type', "while: body must be an unevaluated expression (LST or TOP)")
       }
       // Repeatedly evaluate condition and body
       while (true) {
-        let condResult = await this.lastEval(cond)
-        // Check if truthy
-        let isTruthy = false
-        if (condResult[0] === ImpT.INT || condResult[0] === ImpT.NUM) {
-          isTruthy = (condResult[2] as number) !== 0
-        } else if (condResult[0] === ImpT.NIL) {
-          isTruthy = false
-        } else {
-          isTruthy = true
-        }
-        if (!isTruthy) break
+        if (!truthy(await this.lastEval(cond))) break
         await this.lastEval(body)
+        if (this.limited) await this.check()
       }
       return NIL
     }, 2),
@@ -479,7 +758,7 @@ export function createImpWords(): Record<string, ImpVal> {
         // Return as list
         return imp.lst(undefined, results)
       }
-      throw "get expects a symbol or symbol vector"
+      throw new ImpError('type', "get expects a symbol or symbol vector")
     }, 1),
 
     'set': imp.jsf(function(this: ImpEvaluator, x: ImpVal, y: ImpVal) {
@@ -537,27 +816,27 @@ export function createImpWords(): Record<string, ImpVal> {
           return y
         }
       }
-      throw "set expects a symbol or symbol vector as first argument"
+      throw new ImpError('type', "set expects a symbol or symbol vector as first argument")
     }, 2),
 
-    '+'   : imp.jsf((x,y)=>elemWise((a,b)=>a+b, x, y), 2),
-    '-'   : imp.jsf((x,y)=>elemWise((a,b)=>a-b, x, y), 2),
-    '*'   : imp.jsf((x,y)=>elemWise((a,b)=>a*b, x, y), 2),
-    '%'   : imp.jsf((x,y)=>elemWise((a,b)=>Math.floor(a/b), x, y), 2),
-    '^'   : imp.jsf((x,y)=>elemWise((a,b)=>Math.pow(a,b), x, y), 2),
-    'min' : imp.jsf((x,y)=>elemWise((a,b)=>Math.min(a,b), x, y), 2),
-    'max' : imp.jsf((x,y)=>elemWise((a,b)=>Math.max(a,b), x, y), 2),
-    '<'   : imp.jsf((x,y)=>elemWise((a,b)=>a<b ? 1 : 0, x, y), 2),
-    '>'   : imp.jsf((x,y)=>elemWise((a,b)=>a>b ? 1 : 0, x, y), 2),
-    '<='  : imp.jsf((x,y)=>elemWise((a,b)=>a<=b ? 1 : 0, x, y), 2),
-    '>='  : imp.jsf((x,y)=>elemWise((a,b)=>a>=b ? 1 : 0, x, y), 2),
-    '='   : imp.jsf((x,y)=>elemWise((a,b)=>a===b ? 1 : 0, x, y), 2),
-    '~='  : imp.jsf((x,y)=>elemWise((a,b)=>a!==b ? 1 : 0, x, y), 2),
+    '+'   : imp.jsf((x,y)=>timeWise('+', x, y) ?? elemWise((a,b)=>a+b, x, y, bigOps['+']), 2),
+    '-'   : imp.jsf((x,y)=>timeWise('-', x, y) ?? elemWise((a,b)=>a-b, x, y, bigOps['-']), 2),
+    '*'   : imp.jsf((x,y)=>timeWise('*', x, y) ?? elemWise((a,b)=>a*b, x, y, bigOps['*']), 2),
+    '%'   : imp.jsf((x,y)=>timeWise('%', x, y) ?? elemWise((a,b)=>Math.floor(a/b), x, y, bigOps['%']), 2),
+    '^'   : imp.jsf((x,y)=>elemWise((a,b)=>Math.pow(a,b), x, y, bigOps['^']), 2),
+    'min' : imp.jsf((x,y)=>timeWise('min', x, y) ?? elemWise((a,b)=>Math.min(a,b), x, y, bigOps['min']), 2),
+    'max' : imp.jsf((x,y)=>timeWise('max', x, y) ?? elemWise((a,b)=>Math.max(a,b), x, y, bigOps['max']), 2),
+    '<'   : imp.jsf((x,y)=>timeWise('<', x, y) ?? compareWise((a,b)=>a<b, x, y, bigOps['<']), 2),
+    '>'   : imp.jsf((x,y)=>timeWise('>', x, y) ?? compareWise((a,b)=>a>b, x, y, bigOps['>']), 2),
+    '<='  : imp.jsf((x,y)=>timeWise('<=', x, y) ?? compareWise((a,b)=>a<=b, x, y, bigOps['<=']), 2),
+    '>='  : imp.jsf((x,y)=>timeWise('>=', x, y) ?? compareWise((a,b)=>a>=b, x, y, bigOps['>=']), 2),
+    '='   : imp.jsf((x,y)=>symWise((a,b)=>a===b ? 1 : 0, x, y) ?? timeWise('=', x, y) ?? compareWise((a,b)=>a===b, x, y, bigOps['=']), 2),
+    '~='  : imp.jsf((x,y)=>symWise((a,b)=>a!==b ? 1 : 0, x, y) ?? timeWise('~=', x, y) ?? compareWise((a,b)=>a!==b, x, y, bigOps['~=']), 2),
     'tk'  : imp.jsf((x,y)=> {
       // x tk y: take x items from y, with repeats/cycling
       // x must be a scalar integer
       if (x[0] !== ImpT.INT) {
-        throw "tk left argument must be an integer"
+        throw new ImpError('type', "tk left argument must be an integer", x)
       }
       let count = x[2] as number
 
@@ -565,7 +844,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (y[0] === ImpT.STR) {
         let str = y[2] as string
         if (str.length === 0) {
-          throw "tk cannot take from empty string"
+          throw new ImpError('domain', "tk cannot take from empty string")
         }
         let result = ""
         for (let i = 0; i < count; i++) {
@@ -579,7 +858,7 @@ export function createImpWords(): Record<string, ImpVal> {
         const yList = y as ImpLst
         let vals = yList[2] as ImpVal[]
         if (vals.length === 0) {
-          throw "tk cannot take from empty list"
+          throw new ImpError('domain', "tk cannot take from empty list")
         }
         let result: ImpVal[] = []
         for (let i = 0; i < count; i++) {
@@ -602,7 +881,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (y[0] === ImpT.INTs) {
         let vals = y[2] as number[]
         if (vals.length === 0) {
-          throw "tk cannot take from empty array"
+          throw new ImpError('domain', "tk cannot take from empty array")
         }
         let result: number[] = []
         for (let i = 0; i < count; i++) {
@@ -613,7 +892,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (y[0] === ImpT.NUMs) {
         let vals = y[2] as number[]
         if (vals.length === 0) {
-          throw "tk cannot take from empty array"
+          throw new ImpError('domain', "tk cannot take from empty array")
         }
         let result: number[] = []
         for (let i = 0; i < count; i++) {
@@ -630,10 +909,11 @@ export function createImpWords(): Record<string, ImpVal> {
       return imp.lst(undefined, result)
     }, 2),
     'rev': imp.jsf(x => {
-      const [items, wasString] = toArray(x)
-      return fromArray([...items].reverse(), wasString, ImpQ.isLst(x) ? x[1] : undefined)
+      const [items, like] = toArray(x)
+      return fromArray([...items].reverse(), like, ImpQ.isLst(x) ? x[1] : undefined)
     }, 1),
     'len': imp.jsf(x => {
+      if (ImpQ.isTab(x)) return ImpC.int(tabCount(x))
       // Scalars have length 1
       if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.SYM) {
         return ImpC.int(1)
@@ -641,16 +921,17 @@ export function createImpWords(): Record<string, ImpVal> {
       const [items, _] = toArray(x)
       return ImpC.int(items.length)
     }, 1),
-    '!'   : imp.jsf(x=>{
+    '!'   : imp.jsf(function(this: ImpEvaluator, x: ImpVal) {
       let n = x[2] as number
-      if (n < 0) throw "! requires non-negative integer"
+      if (n < 0) throw new ImpError('domain', "! requires non-negative integer")
       if (n === 0) return ImpC.nums([])
+      this.reserve(n)
       return ImpC.nums(Array.from({length: n}, (_, i) => i))
     }, 1),
     'rd': imp.jsf(async x=>ImpC.str(await readContent(x)), 1),
     'rln': imp.jsf(async ()=>ImpC.str(await readLine()), 0),
     'wr': imp.jsf(async (file, content)=>{
-      if (!fs) throw 'File writing not available in browser environment'
+      if (!fs) throw new ImpError('io', 'File writing not available in browser environment')
 
       // file should be a FILE symbol or string
       let filepath: string
@@ -659,12 +940,12 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (file[0] === ImpT.STR) {
         filepath = toNativePath(file[2] as string)
       } else {
-        throw 'wr expects a %file or string filepath as first argument'
+        throw new ImpError('type', 'wr expects a %file or string filepath as first argument')
       }
 
       // content should be a string
       if (content[0] !== ImpT.STR) {
-        throw 'wr expects a string as second argument'
+        throw new ImpError('type', 'wr expects a string as second argument')
       }
       let text = content[2] as string
 
@@ -672,11 +953,22 @@ export function createImpWords(): Record<string, ImpVal> {
         fs.writeFileSync(filepath, text, 'utf8')
         return NIL
       } catch (e: any) {
-        throw `Failed to write file: ${filepath} - ${e.message}`
+        throw new ImpError('io', `Failed to write file: ${filepath} - ${e.message}`)
       }
     }, 2),
+    // csv %file (or a URL, or the text itself) reads a table, one column per
+    // header field; tocsv writes one back out: wr[%out.csv; tocsv t]
+    'csv': imp.jsf(async x=>tabFromText(await textOf(x), ','), 1),
+    'tsv': imp.jsf(async x=>tabFromText(await textOf(x), '\t'), 1),
+    'tocsv': imp.jsf(x=>ImpC.str(tabToText(asTab('tocsv', x), ',')), 1),
+    'totsv': imp.jsf(x=>ImpC.str(tabToText(asTab('totsv', x), '\t')), 1),
+    'rows': imp.jsf(x=>tabRows(asTab('rows', x)), 1),
+    // json parses JSON text (or a %file or URL) into dictionaries, vectors and
+    // lists; tojson encodes a value back (see imp-json.mts for the mapping)
+    'json': imp.jsf(async x=>fromJson(await textOf(x)), 1),
+    'tojson': imp.jsf(x=>ImpC.str(toJson(x)), 1),
     'e?': imp.jsf(x=>{
-      if (!fs) throw 'File operations not available in browser environment'
+      if (!fs) throw new ImpError('io', 'File operations not available in browser environment')
 
       // file should be a FILE symbol or string
       let filepath: string
@@ -685,7 +977,7 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (x[0] === ImpT.STR) {
         filepath = toNativePath(x[2] as string)
       } else {
-        throw 'e? expects a %file or string filepath'
+        throw new ImpError('type', 'e? expects a %file or string filepath')
       }
 
       try {
@@ -696,7 +988,7 @@ export function createImpWords(): Record<string, ImpVal> {
       }
     }, 1),
     'rm': imp.jsf(x=>{
-      if (!fs) throw 'File operations not available in browser environment'
+      if (!fs) throw new ImpError('io', 'File operations not available in browser environment')
 
       // file should be a FILE symbol or string
       let filepath: string
@@ -705,21 +997,65 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (x[0] === ImpT.STR) {
         filepath = toNativePath(x[2] as string)
       } else {
-        throw 'rm expects a %file or string filepath'
+        throw new ImpError('type', 'rm expects a %file or string filepath')
       }
 
       try {
         fs.unlinkSync(filepath)
         return NIL
       } catch (e: any) {
-        throw `Failed to remove file: ${filepath} - ${e.message}`
+        throw new ImpError('io', `Failed to remove file: ${filepath} - ${e.message}`)
       }
     }, 1),
     'load': imp.jsf(async x=>{
       // If x is a FILE symbol, read it first (load %path == load rd %path)
+      // and names the source after the file, for error locations
+      // Files are read as a stream and lexed as they arrive, so big ones load in one pass
       if (ImpQ.isSym(x) && x[1].kind === SymT.FILE) {
-        x = ImpC.str(await readContent(x))}
+        if (!fs) return load(ImpC.str(await readContent(x)), x[2].description)
+        const filepath = toNativePath(x[2].description!)
+        try { return await loadStream(fs.createReadStream(filepath, {encoding: 'utf8'}), x[2].description) }
+        catch (e: any) {
+          if (e instanceof ImpError) throw e
+          throw new ImpError('io', `Failed to read file: ${filepath} - ${e.message}`) }}
       return load(x as any)}, 1),
+    // load keeping comments, attached to the value after them (see trivia)
+    'load-trivia': imp.jsf(async x=>{
+      if (ImpQ.isSym(x) && x[1].kind === SymT.FILE) {
+        return load(ImpC.str(await readContent(x)), x[2].description, {trivia: true})}
+      return load(x as any, undefined, {trivia: true})}, 1),
+    // loader[rules] makes a dialect: a function that loads text like `load`,
+    // trying the given token rules before the standard ones (loader[rules; base]
+    // builds on another dialect instead, or on nothing if base is nil).
+    // Each rule maps a token type to [pattern; handler], where the handler is
+    // a function of the token text or a standard token type (`raw, `int, `ws...):
+    //   units: loader :[`ft ["[0-9]+ft"; {[t] 0.3048 * json -2 drop t}]]
+    //   units "3ft + 1"    →  0.9144 + 1
+    'loader': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
+      if (args.length < 1 || args.length > 2) throw new ImpError('valence', "loader expects [rules] or [rules; base]")
+      const d = dialectOf(args[0], args[1])
+      const dialect = imp.jsf(async function(this: ImpEvaluator, x: ImpVal) {
+        if (ImpQ.isSym(x) && x[1].kind === SymT.FILE) return loadDialect(this, d, await readContent(x), x[2].description)
+        return loadDialect(this, d, await textOf(x))
+      }, 1)
+      dialects.set(dialect, d)
+      return dialect
+    }, -1),
+
+    // every problem the loader finds in some code, as error values
+    'diagnose': imp.jsf(async x=>{
+      const [text, name] = ImpQ.isSym(x) && x[1].kind === SymT.FILE
+        ? [await readContent(x), x[2].description] : [await textOf(x), undefined]
+      const {diagnostics} = new ImpLoader(name).send(text).finish()
+      return imp.lst(undefined, diagnostics.map(d => d.imp))
+    }, 1),
+    // the comments load-trivia kept on a value: :[`before [...]; `after [...]]
+    'trivia': imp.jsf(x=>{
+      const notes = ImpTrivia.get(x)
+      if (!notes) return NIL
+      const strs = (ts: string[]) => imp.lst(undefined, ts.map(t => ImpC.str(t)))
+      return imp.dct(new Map([['before', strs(notes.before)], ['after', strs(notes.after)]]))
+    }, 1),
     'xmls': imp.jsf(x=>ImpC.str(toXml(x) as string), 1),
     'look': imp.jsf(x=>ImpC.str(impShow(words[(x[2] as string)] ?? NIL)), 1),
     'eval': imp.jsf(x=>eval(x[2] as string), 1),
@@ -742,21 +1078,21 @@ export function createImpWords(): Record<string, ImpVal> {
     'chr': imp.jsf(x=>{
       if (x[0] === ImpT.INT) {
         const code = x[2] as number
-        if (code < 0 || code > 0x10ffff) throw "chr: code point out of range"
+        if (code < 0 || code > 0x10ffff) throw new ImpError('domain', "chr: code point out of range")
         return ImpC.str(String.fromCodePoint(code))
       }
       if (x[0] === ImpT.INTs) {
         const codes = x[2] as number[]
         const chars = codes.map(c => {
-          if (c < 0 || c > 0x10ffff) throw "chr: code point out of range"
+          if (c < 0 || c > 0x10ffff) throw new ImpError('domain', "chr: code point out of range")
           return String.fromCodePoint(c)
         })
         return ImpC.str(chars.join(''))
       }
-      throw "chr expects an integer or vector of integers"
+      throw new ImpError('type', "chr expects an integer or vector of integers", x)
     }, 1),
     'ord': imp.jsf(x=>{
-      if (x[0] !== ImpT.STR) throw "ord expects a string"
+      if (x[0] !== ImpT.STR) throw new ImpError('type', "ord expects a string", x)
       const chars = [...(x[2] as string)]
       if (chars.length === 1) {
         return ImpC.int(chars[0].codePointAt(0)!)
@@ -766,38 +1102,38 @@ export function createImpWords(): Record<string, ImpVal> {
     'hex': imp.jsf(x=>{
       if (x[0] === ImpT.INT) {
         const n = x[2] as number
-        if (!Number.isInteger(n)) throw "hex expects an integer"
+        if (!Number.isInteger(n)) throw new ImpError('type', "hex expects an integer")
         if (n < 0) return ImpC.str(`-${(-n).toString(16)}`)
         return ImpC.str(n.toString(16))
       }
       if (x[0] === ImpT.INTs) {
         const nums = x[2] as number[]
         const strs = nums.map(n => {
-          if (!Number.isInteger(n)) throw "hex expects integers"
+          if (!Number.isInteger(n)) throw new ImpError('type', "hex expects integers")
           if (n < 0) return `-${(-n).toString(16)}`
           return n.toString(16)
         })
         return imp.lst(undefined, strs.map(s => ImpC.str(s)))
       }
-      throw "hex expects an integer or vector of integers"
+      throw new ImpError('type', "hex expects an integer or vector of integers", x)
     }, 1),
     'oct': imp.jsf(x=>{
       if (x[0] === ImpT.INT) {
         const n = x[2] as number
-        if (!Number.isInteger(n)) throw "oct expects an integer"
+        if (!Number.isInteger(n)) throw new ImpError('type', "oct expects an integer")
         if (n < 0) return ImpC.str(`-${(-n).toString(8)}`)
         return ImpC.str(n.toString(8))
       }
       if (x[0] === ImpT.INTs) {
         const nums = x[2] as number[]
         const strs = nums.map(n => {
-          if (!Number.isInteger(n)) throw "oct expects integers"
+          if (!Number.isInteger(n)) throw new ImpError('type', "oct expects integers")
           if (n < 0) return `-${(-n).toString(8)}`
           return n.toString(8)
         })
         return imp.lst(undefined, strs.map(s => ImpC.str(s)))
       }
-      throw "oct expects an integer or vector of integers"
+      throw new ImpError('type', "oct expects an integer or vector of integers", x)
     }, 1),
     'echo': imp.jsf(x=>{
       // For vectors/strands, use impShow; for other types, print the raw value
@@ -818,13 +1154,14 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // Dictionary operations
     'keys': imp.jsf(x => {
-      if (!ImpQ.isDct(x)) throw "keys expects a dictionary"
+      // the keys of a table are its column names
+      if (!ImpQ.isDct(x) && !ImpQ.isTab(x)) throw new ImpError('type', "keys expects a dictionary", x)
       const dct = x[2] as Map<string, ImpVal>
       return ImpC.syms(Array.from(dct.keys()).map(k => Symbol(k)))
     }, 1),
 
     'vals': imp.jsf(x => {
-      if (!ImpQ.isDct(x)) throw "vals expects a dictionary"
+      if (!ImpQ.isDct(x) && !ImpQ.isTab(x)) throw new ImpError('type', "vals expects a dictionary", x)
       const dct = x[2] as Map<string, ImpVal>
       return imp.lst(undefined, Array.from(dct.values()))
     }, 1),
@@ -834,7 +1171,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.JSF || ImpQ.isIfn(x)) {
         // Check arity
         const arity = x[1].arity
-        if (arity !== 1) throw `at with function expects arity 1, got ${arity}`
+        if (arity !== 1) throw new ImpError('valence', `at with function expects arity 1, got ${arity}`)
 
         if (x[0] === ImpT.JSF) {
           const fn = x[2] as any
@@ -844,21 +1181,30 @@ export function createImpWords(): Record<string, ImpVal> {
           const body = x[2] as ImpVal[]
           // Need to evaluate the function body with y as argument
           // This would require access to the evaluator context
-          throw "at with implish function not yet implemented"
+          throw new ImpError('nyi', "at with implish function not yet implemented")
         }
       }
 
       // Index into dictionary with symbol
       if (ImpQ.isDct(x)) {
-        if (!ImpQ.isSym(y)) throw "at with dictionary expects symbol as index"
+        if (!ImpQ.isSym(y)) throw new ImpError('type', "at with dictionary expects symbol as index", y)
         const dct = x[2] as Map<string, ImpVal>
         const keyName = y[2].description || ''
         return dct.get(keyName) || NIL
       }
 
+      // Tables: a symbol picks a column, an integer a row (as a dictionary),
+      // and a list of integers several rows (as a table)
+      if (ImpQ.isTab(x)) {
+        if (ImpQ.isSym(y)) return tabColumn(x, y[2].description || '')
+        if (y[0] === ImpT.INT) return tabRow(x, y[2] as number)
+        if (y[0] === ImpT.INTs) return tabTake(x, y[2] as number[])
+        throw new ImpError('type', "at with table expects a row number, row numbers, or column symbol", y)
+      }
+
       // Index into list or vector
       const indexOne = (source: ImpVal, idx: number): ImpVal => {
-        if (ImpQ.isLst(source)) {
+        if (ImpQ.isLst(source) || ImpQ.isTop(source)) {  // TOP: code from load
           const items = source[2] as ImpVal[]
           if (idx < 0 || idx >= items.length) return ImpC.int(imp.NULL_INT)
           return items[idx]
@@ -873,12 +1219,17 @@ export function createImpWords(): Record<string, ImpVal> {
           if (idx < 0 || idx >= syms.length) return ImpC.int(imp.NULL_INT)
           return ImpC.sym(syms[idx], SymT.BQT)
         }
+        if (source[0] === ImpT.BOOLs || source[0] === ImpT.CHRs || source[0] === ImpT.BYTEs || source[0] === ImpT.BIGs || isTimeVec(source[0])) {
+          const items = colItems(source)
+          if (idx < 0 || idx >= items.length) return ImpC.int(imp.NULL_INT)
+          return items[idx]
+        }
         if (source[0] === ImpT.STR) {
           const str = source[2] as string
           if (idx < 0 || idx >= str.length) return ImpC.int(imp.NULL_INT)
           return ImpC.str(str[idx])
         }
-        throw "at expects list, vector, string, or dictionary"
+        throw new ImpError('type', "at expects list, vector, string, or dictionary", x)
       }
 
       // Right atomic - apply index to each element of index list/vector
@@ -893,6 +1244,8 @@ export function createImpWords(): Record<string, ImpVal> {
         if (allInts) {
           return ImpC.ints(results.map(r => r[2] as number))
         }
+        const typed = x[0] === ImpT.BOOLs || x[0] === ImpT.CHRs || x[0] === ImpT.BIGs || isTimeVec(x[0])
+        if (typed && results.every(r => r[0] === results[0][0])) return colOf(results)
         return imp.lst(undefined, results)
       }
 
@@ -903,7 +1256,7 @@ export function createImpWords(): Record<string, ImpVal> {
           if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
             results.push(indexOne(x, item[2] as number))
           } else {
-            throw "at index list must contain only integers"
+            throw new ImpError('type', "at index list must contain only integers")
           }
         }
         return imp.lst(undefined, results)
@@ -914,12 +1267,12 @@ export function createImpWords(): Record<string, ImpVal> {
         return indexOne(x, y[2] as number)
       }
 
-      throw "at expects integer or list of integers as index"
+      throw new ImpError('type', "at expects integer or list of integers as index", y)
     }, 2),
 
     'put': imp.jsf((d, k, v) => {
-      if (!ImpQ.isDct(d)) throw "put expects dictionary as first argument"
-      if (!ImpQ.isSym(k)) throw "put expects symbol as second argument"
+      if (!ImpQ.isDct(d)) throw new ImpError('type', "put expects dictionary as first argument", d)
+      if (!ImpQ.isSym(k)) throw new ImpError('type', "put expects symbol as second argument", k)
       const dct = d[2] as Map<string, ImpVal>
       const keyName = k[2].description || ''
       // Create new dictionary with updated value (immutable)
@@ -932,15 +1285,15 @@ export function createImpWords(): Record<string, ImpVal> {
     // (English names for K operators)
 
     // Arithmetic operators - English names
-    'plus': imp.jsf((x,y)=>elemWise((a,b)=>a+b, x, y), 2),
-    'minus': imp.jsf((x,y)=>elemWise((a,b)=>a-b, x, y), 2),
-    'times': imp.jsf((x,y)=>elemWise((a,b)=>a*b, x, y), 2),
+    'plus': imp.jsf((x,y)=>timeWise('+', x, y) ?? elemWise((a,b)=>a+b, x, y, bigOps['+']), 2),
+    'minus': imp.jsf((x,y)=>timeWise('-', x, y) ?? elemWise((a,b)=>a-b, x, y, bigOps['-']), 2),
+    'times': imp.jsf((x,y)=>timeWise('*', x, y) ?? elemWise((a,b)=>a*b, x, y, bigOps['*']), 2),
     'divide': imp.jsf((x,y)=>elemWise((a,b)=>a/b, x, y), 2),
 
     // Comparison operators - English names
-    'less': imp.jsf((x,y)=>elemWise((a,b)=>a<b ? 1 : 0, x, y), 2),
-    'more': imp.jsf((x,y)=>elemWise((a,b)=>a>b ? 1 : 0, x, y), 2),
-    'equal': imp.jsf((x,y)=>elemWise((a,b)=>a===b ? 1 : 0, x, y), 2),
+    'less': imp.jsf((x,y)=>timeWise('<', x, y) ?? compareWise((a,b)=>a<b, x, y, bigOps['<']), 2),
+    'more': imp.jsf((x,y)=>timeWise('>', x, y) ?? compareWise((a,b)=>a>b, x, y, bigOps['>']), 2),
+    'equal': imp.jsf((x,y)=>timeWise('=', x, y) ?? compareWise((a,b)=>a===b, x, y, bigOps['=']), 2),
 
     // negate (monadic -:) - flip sign, right atomic
     'negate': imp.jsf(x => rightAtomic(a => -a, x), 1),
@@ -970,6 +1323,10 @@ export function createImpWords(): Record<string, ImpVal> {
         const syms = x[2] as symbol[]
         return syms.length > 0 ? ImpC.sym(syms[0], SymT.BQT) : NIL
       }
+      if (x[0] === ImpT.BOOLs || x[0] === ImpT.CHRs || x[0] === ImpT.BYTEs || x[0] === ImpT.BIGs || isTimeVec(x[0])) {
+        const items = colItems(x)
+        return items.length > 0 ? items[0] : NIL
+      }
       // Handle strings
       if (x[0] === ImpT.STR) {
         const str = x[2] as string
@@ -992,22 +1349,28 @@ export function createImpWords(): Record<string, ImpVal> {
     // string (monadic $:) - convert atoms to strings, right atomic
     'string': imp.jsf(x => {
       // Handle scalars
-      if (x[0] === ImpT.INT || x[0] === ImpT.NUM) {
+      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.BIG || x[0] === ImpT.BOOL) {
         return ImpC.str(x[2].toString())
       }
+      // Dates and times as their literals
+      if (isTimeVec(x[0])) return imp.lst(undefined, colItems(x).map(t => ImpC.str(impShow(t))))
+      if (timeUnit(x[0])) return ImpC.str(impShow(x))
+      // Characters are already text
+      if (x[0] === ImpT.CHR) return ImpC.str(String.fromCodePoint(x[2]))
+      if (x[0] === ImpT.CHRs) return ImpC.str(String.fromCodePoint(...x[2]))
       if (ImpQ.isSym(x)) {
         return ImpC.str(x[2].description || '')
       }
       // Handle vectors - apply to each element
-      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
-        const nums = x[2] as number[]
+      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs || x[0] === ImpT.BIGs || x[0] === ImpT.BOOLs || x[0] === ImpT.BYTEs) {
+        const nums = x[2] as (number | bigint)[]
         return imp.lst(undefined, nums.map(n => ImpC.str(n.toString())))
       }
       if (x[0] === ImpT.SYMs) {
         const syms = x[2] as symbol[]
         return imp.lst(undefined, syms.map(s => ImpC.str(s.description || '')))
       }
-      throw "string expects atom or vector"
+      throw new ImpError('type', "string expects atom or vector", x)
     }, 1),
 
     // type (monadic @:) - return type magic number
@@ -1015,12 +1378,21 @@ export function createImpWords(): Record<string, ImpVal> {
       // K type codes: negative for atoms, positive for lists, 0 for general
       const typeMap: Record<string, number> = {
         [ImpT.NIL]: 0,
+        [ImpT.BOOL]: -1,  // boolean atom
         [ImpT.INT]: -6,   // integer atom
+        [ImpT.BIG]: -7,   // big integer atom
         [ImpT.NUM]: -9,   // float atom
+        [ImpT.CHR]: -10,  // char atom
+        [ImpT.TIMESTAMP]: -12, [ImpT.DATE]: -14, [ImpT.TIMESPAN]: -16, [ImpT.TIME]: -19,
+        [ImpT.TIMESTAMPs]: 12, [ImpT.DATEs]: 14, [ImpT.TIMESPANs]: 16, [ImpT.TIMEs]: 19,
         [ImpT.STR]: -10,  // char (treating string as char)
         [ImpT.SYM]: -11,  // symbol atom
+        [ImpT.BOOLs]: 1,  // boolean vector
+        [ImpT.BYTEs]: 4,  // byte vector
         [ImpT.INTs]: 6,   // integer vector
+        [ImpT.BIGs]: 7,   // big integer vector
         [ImpT.NUMs]: 9,   // float vector
+        [ImpT.CHRs]: 10,  // char vector
         [ImpT.SYMs]: 11,  // symbol vector
         [ImpT.LST]: 0,    // general list
         [ImpT.DCT]: 99,   // dictionary
@@ -1065,13 +1437,20 @@ export function createImpWords(): Record<string, ImpVal> {
         return imp.lst(x[1], result)
       }
 
+      // Booleans stay booleans
+      if (x[0] === ImpT.BOOL) return ImpC.bool(1 - x[2])
+      if (x[0] === ImpT.BOOLs) return ImpC.bools(x[2].map(b => 1 - b))
+
       // Numbers: 0 becomes 1, non-zero becomes 0
       return rightAtomic(a => a === 0 ? 1 : 0, x)
     }, 1),
 
     // flip (monadic +:) - transpose/flip matrices
     'flip': imp.jsf(x => {
-      if (!ImpQ.isLst(x)) throw "flip expects a list"
+      // flip a dictionary of columns into a table, and back
+      if (ImpQ.isDct(x)) return tabFromDct(x)
+      if (ImpQ.isTab(x)) return imp.dct(new Map(x[2]))
+      if (!ImpQ.isLst(x)) throw new ImpError('type', "flip expects a list", x)
       const items = x[2] as ImpVal[]
       if (items.length === 0) return x
 
@@ -1180,11 +1559,13 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // count (monadic #:) - count elements
     'count': imp.jsf(x => {
+      if (ImpQ.isTab(x)) return ImpC.int(tabCount(x))
       if (ImpQ.isDct(x)) {
         return ImpC.int((x[2] as Map<string, ImpVal>).size)
       }
       // Atoms have count 1
-      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.SYM) {
+      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.BIG || x[0] === ImpT.SYM || x[0] === ImpT.CHR || x[0] === ImpT.BOOL
+          || (timeUnit(x[0]) && !isTimeVec(x[0]))) {
         return ImpC.int(1)
       }
       const [items, _] = toArray(x)
@@ -1193,17 +1574,6 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // null? (monadic ^:) - test if null
     'null?': imp.jsf(x => {
-      // Check if a single value is null
-      const isNull = (val: ImpVal): boolean => {
-        if (val[0] === ImpT.INT) return val[2] === imp.NULL_INT
-        if (val[0] === ImpT.NUM) return isNaN(val[2] as number)
-        if (val[0] === ImpT.SYM && val[1].kind === SymT.BQT) {
-          // Bare backtick symbol (null symbol)
-          return (val[2].description ?? '') === ''
-        }
-        return false
-      }
-
       // Handle lists
       if (ImpQ.isLst(x)) {
         const items = x[2] as ImpVal[]
@@ -1212,8 +1582,11 @@ export function createImpWords(): Record<string, ImpVal> {
       }
 
       // Handle vectors
-      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
-        return rightAtomic(a => (a === imp.NULL_INT || isNaN(a)) ? 1 : 0, x)
+      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs || isTimeVec(x[0])) {
+        return ImpC.ints((x[2] as number[]).map(a => imp.isNullNum(a) ? 1 : 0))
+      }
+      if (x[0] === ImpT.SYMs) {
+        return ImpC.ints((x[2] as symbol[]).map(s => (s.description ?? '') === '' ? 1 : 0))
       }
 
       // Handle single values
@@ -1226,7 +1599,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.SYM) {
         return x
       }
-      const [items, wasString] = toArray(x)
+      const [items, like] = toArray(x)
       const seen = new Set<string>()
       const result: ImpVal[] = []
       for (const item of items) {
@@ -1236,7 +1609,7 @@ export function createImpWords(): Record<string, ImpVal> {
           result.push(item)
         }
       }
-      return fromArray(result, wasString, ImpQ.isLst(x) ? x[1] : undefined)
+      return fromArray(result, like, ImpQ.isLst(x) ? x[1] : undefined)
     }, 1),
 
     // lowercase (monadic _: for characters) - already handled in 'floor'
@@ -1244,22 +1617,23 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.STR) {
         return ImpC.str((x[2] as string).toLowerCase())
       }
-      throw "lowercase expects a string"
+      throw new ImpError('type', "lowercase expects a string", x)
     }, 1),
 
     // K Primitives - Phase 2: Core List Operations
 
     // take (dyadic #) - truncate/repeat to length, negative takes from end
-    'take': imp.jsf((x, y) => {
-      if (x[0] !== ImpT.INT) throw "take expects integer count"
+    'take': imp.jsf(function(this: ImpEvaluator, x: ImpVal, y: ImpVal) {
+      if (x[0] !== ImpT.INT) throw new ImpError('type', "take expects integer count", x)
       let count = x[2] as number
 
       // Handle negative count - take from end
       const fromEnd = count < 0
       if (fromEnd) count = -count
+      this.reserve(count)
 
-      const [items, wasString] = toArray(y)
-      if (items.length === 0) throw "cannot take from empty sequence"
+      const [items, like] = toArray(y)
+      if (items.length === 0) throw new ImpError('domain', "cannot take from empty sequence")
 
       let result: ImpVal[]
       if (fromEnd) {
@@ -1274,11 +1648,11 @@ export function createImpWords(): Record<string, ImpVal> {
         }
       }
 
-      return fromArray(result, wasString, ImpQ.isLst(y) ? y[1] : undefined)
+      return fromArray(result, like, ImpQ.isLst(y) ? y[1] : undefined)
     }, 2),
 
     // reshape (dyadic # with list shape) - create multi-dimensional array
-    'reshape': imp.jsf((shape, data) => {
+    'reshape': imp.jsf(function(this: ImpEvaluator, shape: ImpVal, data: ImpVal) {
       // Determine the source data type
       type SourceType = 'int' | 'num' | 'sym' | 'str' | 'mixed'
       let sourceType: SourceType = 'mixed'
@@ -1324,32 +1698,33 @@ export function createImpWords(): Record<string, ImpVal> {
         const items = shape[2] as ImpVal[]
         dims = items.map(item => {
           if (item[0] === ImpT.INT) return item[2] as number
-          throw "reshape shape must contain only integers"
+          throw new ImpError('type', "reshape shape must contain only integers")
         })
       } else {
-        throw "reshape expects integer or list of integers as shape"
+        throw new ImpError('type', "reshape expects integer or list of integers as shape")
       }
 
       // Flatten data source
       const source = flattenData(data)
-      if (source.length === 0) throw "reshape cannot work with empty data"
+      if (source.length === 0) throw new ImpError('domain', "reshape cannot work with empty data")
 
       // Handle 0N (maximal dimension) in shape
       if (dims.length === 2) {
         if (dims[0] === imp.NULL_INT) {
           const cols = dims[1]
-          if (cols <= 0) throw "reshape column count must be positive"
+          if (cols <= 0) throw new ImpError('domain', "reshape column count must be positive")
           const rows = Math.ceil(source.length / cols)
           dims = [rows, cols]
         } else if (dims[1] === imp.NULL_INT) {
           const rows = dims[0]
-          if (rows <= 0) throw "reshape row count must be positive"
+          if (rows <= 0) throw new ImpError('domain', "reshape row count must be positive")
           const cols = Math.ceil(source.length / rows)
           dims = [rows, cols]
         }
       } else if (dims.includes(imp.NULL_INT)) {
-        throw "reshape 0N only supported for 2-dimensional shapes"
+        throw new ImpError('rank', "reshape 0N only supported for 2-dimensional shapes")
       }
+      this.reserve(dims.reduce((a, b) => a * b, 1))
 
       // Build the reshaped result based on source type
       if (sourceType === 'int' || sourceType === 'num') {
@@ -1458,12 +1833,12 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // drop (dyadic _) - remove elements from start/end
     'drop': imp.jsf((x, y) => {
-      if (x[0] !== ImpT.INT) throw "drop expects integer count"
+      if (x[0] !== ImpT.INT) throw new ImpError('type', "drop expects integer count", x)
       let count = x[2] as number
 
-      const [items, wasString] = toArray(y)
+      const [items, like] = toArray(y)
       const result = count >= 0 ? items.slice(count) : items.slice(0, items.length + count)
-      return fromArray(result, wasString, ImpQ.isLst(y) ? y[1] : undefined)
+      return fromArray(result, like, ImpQ.isLst(y) ? y[1] : undefined)
     }, 2),
 
     // cut (dyadic _ with list of indices) - split at indices
@@ -1478,13 +1853,13 @@ export function createImpWords(): Record<string, ImpVal> {
           if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
             return item[2] as number
           }
-          throw "cut indices must be integers"
+          throw new ImpError('type', "cut indices must be integers")
         })
       } else {
-        throw "cut expects list of indices as first argument"
+        throw new ImpError('type', "cut expects list of indices as first argument")
       }
 
-      const [items, wasString] = toArray(y)
+      const [items, like] = toArray(y)
       const result: ImpVal[][] = []
       for (let i = 0; i < indices.length; i++) {
         const start = indices[i]
@@ -1493,7 +1868,7 @@ export function createImpWords(): Record<string, ImpVal> {
       }
 
       // Convert each slice back to appropriate type
-      return imp.lst(undefined, result.map(arr => fromArray(arr, wasString, ImpQ.isLst(y) ? y[1] : undefined)))
+      return imp.lst(undefined, result.map(arr => fromArray(arr, like, ImpQ.isLst(y) ? y[1] : undefined)))
     }, 2),
 
     // except (dyadic ^) - remove all instances of y from x
@@ -1510,29 +1885,18 @@ export function createImpWords(): Record<string, ImpVal> {
       }
 
       // Filter x
-      const [items, wasString] = toArray(x)
+      const [items, like] = toArray(x)
       const result: ImpVal[] = []
       for (const item of items) {
         if (!toRemove.has(impShow(item))) {
           result.push(item)
         }
       }
-      return fromArray(result, wasString, ImpQ.isLst(x) ? x[1] : undefined)
+      return fromArray(result, like, ImpQ.isLst(x) ? x[1] : undefined)
     }, 2),
 
     // fill (dyadic ^ with atom left) - replace nulls with x
     'fill': imp.jsf((x, y) => {
-      // Helper to check if a value is null
-      const isNull = (val: ImpVal): boolean => {
-        if (val[0] === ImpT.NIL) return true
-        if (val[0] === ImpT.INT && val[2] === imp.NULL_INT) return true
-        if (val[0] === ImpT.NUM && isNaN(val[2] as number)) return true
-        if (val[0] === ImpT.SYM && val[1].kind === SymT.BQT) {
-          return (val[2].description ?? '') === ''
-        }
-        return false
-      }
-
       if (ImpQ.isLst(y)) {
         const result: ImpVal[] = []
         for (const item of y[2] as ImpVal[]) {
@@ -1541,13 +1905,13 @@ export function createImpWords(): Record<string, ImpVal> {
         return imp.lst(y[1], result)
       }
 
-      if (y[0] === ImpT.INTs || y[0] === ImpT.NUMs) {
+      if (y[0] === ImpT.INTs || y[0] === ImpT.NUMs || isTimeVec(y[0])) {
         const nums = y[2] as number[]
         const fillVal = x[2]
-        const result = nums.map(n =>
-          (n === imp.NULL_INT || isNaN(n)) ? fillVal : n
-        )
-        return y[0] === ImpT.INTs ? ImpC.ints(result as number[]) : ImpC.nums(result as number[])
+        const result = nums.map(n => imp.isNullNum(n) ? fillVal : n)
+        // a float fill makes int vectors floats
+        const t = y[0] === ImpT.INTs && x[0] === ImpT.NUM ? ImpT.NUMs : y[0]
+        return [t, null, result] as ImpVal
       }
 
       if (y[0] === ImpT.SYMs) {
@@ -1559,7 +1923,7 @@ export function createImpWords(): Record<string, ImpVal> {
         return ImpC.syms(result)
       }
 
-      return y
+      return isNull(y) ? x : y
     }, 2),
 
     // find (dyadic ?) - index of y in x, returns 0N if not found
@@ -1680,7 +2044,7 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // pad (dyadic $) - adjust string length
     'pad': imp.jsf((x, y) => {
-      if (y[0] !== ImpT.STR) throw "pad expects string as second argument"
+      if (y[0] !== ImpT.STR) throw new ImpError('type', "pad expects string as second argument", y)
 
       const padAmount = (xVal: number, str: string): string => {
         if (xVal >= 0) {
@@ -1717,7 +2081,7 @@ export function createImpWords(): Record<string, ImpVal> {
         return ImpC.str(padAmount(x[2] as number, str))
       }
 
-      throw "pad expects number or number vector as first argument"
+      throw new ImpError('type', "pad expects number or number vector as first argument")
     }, 2),
 
     // K Primitives - Phase 3: Sorting & Type Operations
@@ -1778,7 +2142,7 @@ export function createImpWords(): Record<string, ImpVal> {
         const result: symbol[] = []
         for (const [key, val] of dct.entries()) {
           let count = 0
-          if (val[0] === ImpT.INT || val[0] === ImpT.NUM) {
+          if (val[0] === ImpT.INT || val[0] === ImpT.NUM || val[0] === ImpT.BOOL) {
             count = val[2] as number
           }
           for (let j = 0; j < count; j++) {
@@ -1788,7 +2152,7 @@ export function createImpWords(): Record<string, ImpVal> {
         return ImpC.syms(result)
       }
 
-      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
+      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs || x[0] === ImpT.BOOLs || x[0] === ImpT.BYTEs) {
         const nums = x[2] as number[]
         const result: number[] = []
         for (let i = 0; i < nums.length; i++) {
@@ -1806,7 +2170,7 @@ export function createImpWords(): Record<string, ImpVal> {
         for (let i = 0; i < items.length; i++) {
           const item = items[i]
           let count = 0
-          if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
+          if (item[0] === ImpT.INT || item[0] === ImpT.NUM || item[0] === ImpT.BOOL) {
             count = item[2] as number
           }
           for (let j = 0; j < count; j++) {
@@ -1816,7 +2180,7 @@ export function createImpWords(): Record<string, ImpVal> {
         return ImpC.ints(result)
       }
 
-      throw "where expects vector, list, or dictionary"
+      throw new ImpError('type', "where expects vector, list, or dictionary", x)
     }, 1),
 
     // reverse (monadic |:) - reverse a list
@@ -1837,31 +2201,44 @@ export function createImpWords(): Record<string, ImpVal> {
         return x
       }
 
-      const [items, wasString] = toArray(x)
-      return fromArray([...items].reverse(), wasString, ImpQ.isLst(x) ? x[1] : undefined)
+      const [items, like] = toArray(x)
+      return fromArray([...items].reverse(), like, ImpQ.isLst(x) ? x[1] : undefined)
     }, 1),
 
     // K Primitives - Phase 4: Special Forms & Dict Ops
 
     // mod (dyadic !) - modulo, right atomic
     'mod': imp.jsf((x, y) => {
-      if (x[0] !== ImpT.INT && x[0] !== ImpT.NUM) throw "mod expects number as first argument"
+      if (x[0] === ImpT.BIG || y[0] === ImpT.BIG || y[0] === ImpT.BIGs) {
+        const m = getBig(x), modulus = typeof m === 'bigint' ? (m < 0n ? -m : m) : null
+        if (modulus === null) throw new ImpError('type', "mod expects integer as first argument", x)
+        if (modulus === 0n) throw new ImpError('domain', "mod by zero")
+        return bigRight(a => a % modulus, y) ?? rightAtomic(a => a % Number(modulus), y)
+      }
+      if (x[0] !== ImpT.INT && x[0] !== ImpT.NUM) throw new ImpError('type', "mod expects number as first argument", x)
       const modulus = Math.abs(x[2] as number)
       return rightAtomic(a => a % modulus, y)
     }, 2),
 
     // div (dyadic ! with negative left) - divide and truncate, right atomic
     'div': imp.jsf((x, y) => {
-      if (x[0] !== ImpT.INT && x[0] !== ImpT.NUM) throw "div expects number as first argument"
+      if (x[0] === ImpT.BIG || y[0] === ImpT.BIG || y[0] === ImpT.BIGs) {
+        const d = getBig(x), divisor = typeof d === 'bigint' ? (d < 0n ? -d : d) : null
+        if (divisor === null) throw new ImpError('type', "div expects integer as first argument", x)
+        if (divisor === 0n) throw new ImpError('domain', "div by zero")
+        return bigRight(a => bigDiv(a, divisor), y) ?? rightAtomic(a => Math.floor(a / Number(divisor)), y)
+      }
+      if (x[0] !== ImpT.INT && x[0] !== ImpT.NUM) throw new ImpError('type', "div expects number as first argument", x)
       const divisor = Math.abs(x[2] as number)
       return rightAtomic(a => Math.floor(a / divisor), y)
     }, 2),
 
     // int (monadic !:) - range from 0 to N (or odometer for lists)
     // Already implemented as '!' in base implish, but add as 'int' for K compatibility
-    'int': imp.jsf(x => {
+    'int': imp.jsf(function(this: ImpEvaluator, x: ImpVal) {
       if (x[0] === ImpT.INT) {
         const n = x[2] as number
+        this.reserve(Math.abs(n))
         if (n >= 0) {
           return ImpC.ints(Array.from({length: n}, (_, i) => i))
         } else {
@@ -1879,6 +2256,7 @@ export function createImpWords(): Record<string, ImpVal> {
         for (const dim of dims) {
           total *= dim
         }
+        this.reserve(total * dims.length)
 
         // Generate each dimension's values
         const result: number[][] = []
@@ -1898,23 +2276,12 @@ export function createImpWords(): Record<string, ImpVal> {
         return imp.lst(undefined, result.map(r => ImpC.ints(r)))
       }
 
-      throw "int expects integer or vector"
+      throw new ImpError('type', "int expects integer or vector", x)
     }, 1),
 
     // group (monadic =:) - dictionary from items to indices
     'group': imp.jsf(x => {
-      const groups = new Map<string, number[]>()
-      const [items, _] = toArray(x)
-
-      for (let i = 0; i < items.length; i++) {
-        const item = items[i]
-        // Use a stable key that preserves single backtick for backtick symbols
-        const key = (ImpQ.isSym(item) && item[1].kind === SymT.BQT)
-          ? ((item[2] as symbol).description ?? '')
-          : impShow(item)
-        if (!groups.has(key)) groups.set(key, [])
-        groups.get(key)!.push(i)
-      }
+      const groups = groupRows(toArray(x)[0])
 
       // Convert to dictionary
       const result = new Map<string, ImpVal>()
@@ -1926,7 +2293,7 @@ export function createImpWords(): Record<string, ImpVal> {
 
     // identity-matrix (monadic =: for numbers) - NxN identity matrix
     'identity-matrix': imp.jsf(x => {
-      if (x[0] !== ImpT.INT) throw "identity-matrix expects integer"
+      if (x[0] !== ImpT.INT) throw new ImpError('type', "identity-matrix expects integer", x)
       const n = x[2] as number
       const result: ImpVal[] = []
       for (let i = 0; i < n; i++) {
@@ -2044,51 +2411,73 @@ export function createImpWords(): Record<string, ImpVal> {
       // Single type conversion
       const convertOne = (typeSymbol: symbol, val: ImpVal): ImpVal => {
         const typeName = typeSymbol.description || ''
+        const time = castTime(typeName, val)
+        if (time) return time
 
         switch (typeName) {
-          case 'c': // to char (string)
-            if (val[0] === ImpT.INT || val[0] === ImpT.NUM) {
-              return ImpC.str(String.fromCharCode(val[2] as number))
+          case 'c': // to char
+            if (val[0] === ImpT.CHR) return val
+            if (val[0] === ImpT.INT || val[0] === ImpT.NUM || val[0] === ImpT.BOOL) {
+              return ImpC.chr(val[2] as number)
             }
-            throw "cast to char expects number"
+            throw new ImpError('type', "cast to char expects number")
 
           case 'i': // to int
             if (val[0] === ImpT.INT) return val
             if (val[0] === ImpT.NUM) return ImpC.int(Math.floor(val[2] as number))
+            if (val[0] === ImpT.CHR || val[0] === ImpT.BOOL) return ImpC.int(val[2])
             if (val[0] === ImpT.STR) {
               const str = val[2] as string
               return ImpC.int(str.charCodeAt(0))
             }
-            throw "cast to int expects number or char"
+            throw new ImpError('type', "cast to int expects number or char")
 
           case 'f': // to float
             if (val[0] === ImpT.NUM) return val
-            if (val[0] === ImpT.INT) return ImpC.num(val[2] as number)
-            throw "cast to float expects number"
+            if (val[0] === ImpT.INT || val[0] === ImpT.CHR || val[0] === ImpT.BOOL) return ImpC.num(val[2] as number)
+            throw new ImpError('type', "cast to float expects number")
 
-          case 'b': // to bool (0 or 1)
-            if (val[0] === ImpT.INT || val[0] === ImpT.NUM) {
-              return ImpC.int((val[2] as number) !== 0 ? 1 : 0)
+          case 'b': // to bool
+            if (val[0] === ImpT.BOOL) return val
+            if (val[0] === ImpT.INT || val[0] === ImpT.NUM || val[0] === ImpT.CHR) {
+              return ImpC.bool(val[2] as number)
             }
-            throw "cast to bool expects number"
+            throw new ImpError('type', "cast to bool expects number")
+
+          case 'x': // to bytes (an atom gives one byte)
+            if (val[0] === ImpT.INT || val[0] === ImpT.CHR || val[0] === ImpT.BOOL) {
+              return ImpC.bytes([val[2]])
+            }
+            throw new ImpError('type', "cast to byte expects int, char or bool")
 
           default:
-            throw `unknown cast type: ${typeName}`
+            throw new ImpError('domain', `unknown cast type: ${typeName}`)
         }
       }
 
-      // Handle string to int vector
+      // Vectors (and strings, as char codes) convert item by item, keeping a vector type
+      // Dates and times (d t p n) convert from and to ints, keeping the shape
+      const time = ImpQ.isSym(typeSpec) ? castTime(typeSpec[2].description ?? '', value) : undefined
+      if (time) return time
+
+      const vecTypes = [ImpT.INTs, ImpT.NUMs, ImpT.CHRs, ImpT.BOOLs, ImpT.BYTEs]
+      if (ImpQ.isSym(typeSpec) && vecTypes.includes(value[0])) {
+        const nums = value[2] as number[]
+        switch (typeSpec[2].description) {
+          case 'c': return ImpC.str(nums.map(n => String.fromCharCode(n)).join(''))
+          case 'i': return ImpC.ints(nums.map(n => Math.floor(n)))
+          case 'f': return ImpC.nums(nums)
+          case 'b': return ImpC.bools(nums)
+          case 'x': return ImpC.bytes(nums)
+        }
+      }
       if (ImpQ.isSym(typeSpec) && typeSpec[2].description === 'i' && value[0] === ImpT.STR) {
         const str = value[2] as string
         const codes = Array.from(str).map(c => c.charCodeAt(0))
         return ImpC.ints(codes)
       }
-
-      // Handle int vector to string
-      if (ImpQ.isSym(typeSpec) && typeSpec[2].description === 'c' && (value[0] === ImpT.INTs || value[0] === ImpT.NUMs)) {
-        const nums = value[2] as number[]
-        const str = nums.map(n => String.fromCharCode(n)).join('')
-        return ImpC.str(str)
+      if (ImpQ.isSym(typeSpec) && typeSpec[2].description === 'x' && value[0] === ImpT.STR) {
+        return ImpC.bytes([...new TextEncoder().encode(value[2])])
       }
 
       // Handle vector of type symbols applied to single value
@@ -2111,11 +2500,11 @@ export function createImpWords(): Record<string, ImpVal> {
         return convertOne(typeSpec[2], value)
       }
 
-      throw "cast expects symbol or symbol vector as first argument"
+      throw new ImpError('type', "cast expects symbol or symbol vector as first argument")
     }, 2),
 
     // value (monadic) - evaluate implish string or get dict values
-    'value': imp.jsf(async x => {
+    'value': imp.jsf(async function(this: ImpEvaluator, x: ImpVal) {
       // For dictionaries, return the values
       if (ImpQ.isDct(x)) {
         const map = x[2] as Map<string, ImpVal>
@@ -2140,10 +2529,10 @@ export function createImpWords(): Record<string, ImpVal> {
       }
 
       // For strings, evaluate as implish code
-      if (x[0] !== ImpT.STR) throw "value expects a string or dictionary"
+      if (x[0] !== ImpT.STR) throw new ImpError('type', "value expects a string or dictionary", x)
       const str = x[2] as string
       const parsed = load(ImpC.str(str))
-      return await impEval(parsed as any)
+      return await impEval(parsed as any, this.treeWalk, this.limits, this.used)
     }, 1),
 
     // prm (monadic) - generate all permutations
@@ -2185,7 +2574,7 @@ export function createImpWords(): Record<string, ImpVal> {
         return imp.lst(undefined, perms.map(p => imp.lst(x[1], p)))
       }
 
-      throw "prm expects integer, string, or list"
+      throw new ImpError('type', "prm expects integer, string, or list", x)
     }, 1),
 
     // Adverbs (higher-order functions)
@@ -2193,63 +2582,33 @@ export function createImpWords(): Record<string, ImpVal> {
       // each[f; x] - apply function f to each element of x
       // f must be a function (JSF or IFN)
       if (f[0] !== ImpT.JSF && f[0] !== ImpT.IFN) {
-        throw "each: first argument must be a function"
+        throw new ImpError('type', "each: first argument must be a function", f)
       }
 
+      const apply = async (arg: ImpVal): Promise<ImpVal> =>
+        f[0] === ImpT.JSF ? await (f as ImpJsf)[2].apply(this, [arg]) : await this.applyIfn(f as ImpIfn, [arg])
+
       // Handle atoms - apply directly
-      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.SYM || x[0] === ImpT.STR) {
-        if (f[0] === ImpT.JSF) {
-          return await (f as ImpJsf)[2].apply(this, [x])
-        } else {
-          return await this.applyIfn(f as ImpIfn, [x])
-        }
+      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.BIG || x[0] === ImpT.SYM || x[0] === ImpT.STR) {
+        return await apply(x)
       }
 
-      // Handle vectors - map over each element
-      if (x[0] === ImpT.INTs) {
-        const vals = x[2] as number[]
-        const results: number[] = []
-        for (const val of vals) {
-          const arg = ImpC.int(val)
-          let result: ImpVal
-          if (f[0] === ImpT.JSF) {
-            result = await (f as ImpJsf)[2].apply(this, [arg])
-          } else {
-            result = await this.applyIfn(f as ImpIfn, [arg])
-          }
-          // Extract numeric result
-          if (result[0] === ImpT.INT) {
-            results.push(result[2] as number)
-          } else if (result[0] === ImpT.NUM) {
-            results.push(result[2] as number)
-          } else {
-            throw "each: function must return numeric values for numeric input"
-          }
+      // Handle numeric vectors - map over each element; results that
+      // overflowed into big integers make the whole result big
+      if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
+        const results: ImpVal[] = []
+        for (const arg of toArray(x)[0]) {
+          if (this.limited) await this.check(1)
+          results.push(await apply(arg))
         }
-        return ImpC.ints(results)
-      }
-
-      if (x[0] === ImpT.NUMs) {
-        const vals = x[2] as number[]
-        const results: number[] = []
-        for (const val of vals) {
-          const arg = ImpC.num(val)
-          let result: ImpVal
-          if (f[0] === ImpT.JSF) {
-            result = await (f as ImpJsf)[2].apply(this, [arg])
-          } else {
-            result = await this.applyIfn(f as ImpIfn, [arg])
-          }
-          // Extract numeric result
-          if (result[0] === ImpT.INT) {
-            results.push(result[2] as number)
-          } else if (result[0] === ImpT.NUM) {
-            results.push(result[2] as number)
-          } else {
-            throw "each: function must return numeric values for numeric input"
-          }
+        if (results.every(r => r[0] === ImpT.INT || r[0] === ImpT.NUM)) {
+          const nums = results.map(r => r[2] as number)
+          return x[0] === ImpT.INTs ? ImpC.ints(nums) : ImpC.nums(nums)
         }
-        return ImpC.nums(results)
+        if (results.every(r => r[0] === ImpT.INT || r[0] === ImpT.BIG)) {
+          return ImpC.bigs(results.map(r => BigInt(r[2] as number | bigint)))
+        }
+        throw new ImpError('type', "each: function must return numeric values for numeric input")
       }
 
       // Handle general lists - map over elements
@@ -2257,25 +2616,33 @@ export function createImpWords(): Record<string, ImpVal> {
         const items = x[2] as ImpVal[]
         const results: ImpVal[] = []
         for (const item of items) {
-          let result: ImpVal
-          if (f[0] === ImpT.JSF) {
-            result = await (f as ImpJsf)[2].apply(this, [item])
-          } else {
-            result = await this.applyIfn(f as ImpIfn, [item])
-          }
-          results.push(result)
+          if (this.limited) await this.check(1)
+          results.push(await apply(item))
         }
         return imp.lst(x[1], results)
       }
 
-      throw "each: second argument must be a list, vector, or atom"
+      // Handle the other vectors (symbols, big integers, booleans, characters,
+      // bytes, times) - map over their items, keeping the type where it fits
+      if (x[0] === ImpT.SYMs || x[0] === ImpT.BIGs || x[0] === ImpT.BOOLs || x[0] === ImpT.CHRs
+          || x[0] === ImpT.BYTEs || isTimeVec(x[0])) {
+        const [items, like] = toArray(x)
+        const results: ImpVal[] = []
+        for (const item of items) {
+          if (this.limited) await this.check(1)
+          results.push(await apply(item))
+        }
+        return fromArray(results, like)
+      }
+
+      throw new ImpError('type', "each: second argument must be a list, vector, or atom", x)
     }, 2),
 
     'each2': imp.jsf(async function(this: ImpEvaluator, f: ImpVal, x: ImpVal, y: ImpVal) {
       // each2[f; x; y] - apply dyadic function f pairwise to x and y
       // f must be a function (JSF or IFN)
       if (f[0] !== ImpT.JSF && f[0] !== ImpT.IFN) {
-        throw "each2: first argument must be a function"
+        throw new ImpError('type', "each2: first argument must be a function", f)
       }
 
       // Helper to get length of a value
@@ -2342,20 +2709,20 @@ export function createImpWords(): Record<string, ImpVal> {
       // In K: +/ is "sum", */ is "product", etc.
       // f must be a dyadic function (JSF or IFN with arity 2)
       if (f[0] !== ImpT.JSF && f[0] !== ImpT.IFN) {
-        throw "over: first argument must be a function"
+        throw new ImpError('type', "over: first argument must be a function", f)
       }
 
       // Check arity
       const arity = f[1].arity
       if (arity !== 2) {
-        throw `over: function must have arity 2, got ${arity}`
+        throw new ImpError('valence', `over: function must have arity 2, got ${arity}`)
       }
 
       // Convert to array
       const [items, _] = toArray(x)
 
       if (items.length === 0) {
-        throw "over: cannot reduce empty sequence"
+        throw new ImpError('domain', "over: cannot reduce empty sequence")
       }
 
       if (items.length === 1) {
@@ -2365,6 +2732,7 @@ export function createImpWords(): Record<string, ImpVal> {
       // Reduce from left to right
       let accumulator = items[0]
       for (let i = 1; i < items.length; i++) {
+        if (this.limited) await this.check()
         if (f[0] === ImpT.JSF) {
           accumulator = await (f as ImpJsf)[2].apply(this, [accumulator, items[i]])
         } else {
@@ -2380,24 +2748,24 @@ export function createImpWords(): Record<string, ImpVal> {
       // In K: +\ is "running sum", *\ is "running product", etc.
       // f must be a dyadic function (JSF or IFN with arity 2)
       if (f[0] !== ImpT.JSF && f[0] !== ImpT.IFN) {
-        throw "scan: first argument must be a function"
+        throw new ImpError('type', "scan: first argument must be a function", f)
       }
 
       // Check arity
       const arity = f[1].arity
       if (arity !== 2) {
-        throw `scan: function must have arity 2, got ${arity}`
+        throw new ImpError('valence', `scan: function must have arity 2, got ${arity}`)
       }
 
       // Convert to array
-      const [items, wasString] = toArray(x)
+      const [items, like] = toArray(x)
 
       if (items.length === 0) {
-        throw "scan: cannot scan empty sequence"
+        throw new ImpError('domain', "scan: cannot scan empty sequence")
       }
 
       if (items.length === 1) {
-        return fromArray([items[0]], wasString, ImpQ.isLst(x) ? x[1] : undefined)
+        return fromArray([items[0]], like, ImpQ.isLst(x) ? x[1] : undefined)
       }
 
       // Scan from left to right, collecting all intermediate results
@@ -2405,6 +2773,7 @@ export function createImpWords(): Record<string, ImpVal> {
       let accumulator = items[0]
 
       for (let i = 1; i < items.length; i++) {
+        if (this.limited) await this.check(1)
         if (f[0] === ImpT.JSF) {
           accumulator = await (f as ImpJsf)[2].apply(this, [accumulator, items[i]])
         } else {
@@ -2413,7 +2782,7 @@ export function createImpWords(): Record<string, ImpVal> {
         results.push(accumulator)
       }
 
-      return fromArray(results, wasString, ImpQ.isLst(x) ? x[1] : undefined)
+      return fromArray(results, like, ImpQ.isLst(x) ? x[1] : undefined)
     }, 2),
 
     'bin': imp.jsf((x: ImpVal, y: ImpVal) => {
@@ -2423,32 +2792,13 @@ export function createImpWords(): Record<string, ImpVal> {
       // Returns the index where y would be inserted to maintain sort order
       // -1 if y < first element, count if y > last element
 
-      // Helper function to perform binary search on a sorted array
-      // Returns the index of the largest element <= target
-      const binarySearch = (arr: number[], target: number): number => {
-        // If target is less than first element, return -1
-        if (arr.length === 0 || target < arr[0]) {
-          return -1
-        }
-
-        let left = 0
-        let right = arr.length - 1
-
-        while (left < right) {
-          // Use mid biased toward right to find largest element <= target
-          const mid = Math.floor((left + right + 1) / 2)
-          if (arr[mid] <= target) {
-            left = mid
-          } else {
-            right = mid - 1
-          }
-        }
-
-        return left
-      }
-
-      // Extract numeric array from x
+      // Extract numeric array from x (dates and times search by their numbers)
       let arr: number[]
+      if (timeUnit(x[0]) || timeUnit(y[0])) {
+        if (!isTimeVec(x[0]) || timeUnit(x[0]) !== timeUnit(y[0])) throw new ImpError('type', `bin: can't search for ${y[0].toLowerCase()} in ${x[0].toLowerCase()}`)
+        const ys = getNum(y)
+        return Array.isArray(ys) ? ImpC.ints(ys.map(t => binSearch(x[2] as number[], t))) : ImpC.int(binSearch(x[2] as number[], ys))
+      }
       if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
         arr = x[2] as number[]
       } else if (ImpQ.isLst(x)) {
@@ -2459,34 +2809,34 @@ export function createImpWords(): Record<string, ImpVal> {
           if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
             arr.push(item[2] as number)
           } else {
-            throw "bin: left argument must be a sorted numeric list"
+            throw new ImpError('domain', "bin: left argument must be a sorted numeric list")
           }
         }
       } else {
-        throw "bin: left argument must be a sorted numeric list"
+        throw new ImpError('domain', "bin: left argument must be a sorted numeric list")
       }
 
       // Handle right-atomic behavior
       if (y[0] === ImpT.INT || y[0] === ImpT.NUM) {
         const target = y[2] as number
-        return ImpC.int(binarySearch(arr, target))
+        return ImpC.int(binSearch(arr, target))
       } else if (y[0] === ImpT.INTs || y[0] === ImpT.NUMs) {
         const targets = y[2] as number[]
-        const results = targets.map(t => binarySearch(arr, t))
+        const results = targets.map(t => binSearch(arr, t))
         return ImpC.ints(results)
       } else if (ImpQ.isLst(y)) {
         const items = y[2] as ImpVal[]
         const results: number[] = []
         for (const item of items) {
           if (item[0] === ImpT.INT || item[0] === ImpT.NUM) {
-            results.push(binarySearch(arr, item[2] as number))
+            results.push(binSearch(arr, item[2] as number))
           } else {
-            throw "bin: right argument must be numeric"
+            throw new ImpError('type', "bin: right argument must be numeric")
           }
         }
         return ImpC.ints(results)
       } else {
-        throw "bin: right argument must be numeric"
+        throw new ImpError('type', "bin: right argument must be numeric")
       }
     }, 2),
 
@@ -2500,12 +2850,12 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.STR) {
         sep = x[2] as string
       } else {
-        throw "join: left argument (separator) must be a string"
+        throw new ImpError('type', "join: left argument (separator) must be a string", x)
       }
 
       // Extract strings from y
       if (!ImpQ.isLst(y)) {
-        throw "join: right argument must be a list of strings"
+        throw new ImpError('type', "join: right argument must be a list of strings")
       }
 
       const items = y[2] as ImpVal[]
@@ -2515,7 +2865,7 @@ export function createImpWords(): Record<string, ImpVal> {
         if (item[0] === ImpT.STR) {
           strings.push(item[2] as string)
         } else {
-          throw "join: right argument must be a list of strings"
+          throw new ImpError('type', "join: right argument must be a list of strings")
         }
       }
 
@@ -2527,6 +2877,20 @@ export function createImpWords(): Record<string, ImpVal> {
       // x is the base(s) - can be a single number or list of bases
       // y is the digits
 
+      // Integers combine in bigints, giving BIG when the value is too large for an int
+      const bx = getBig(x), by = getBig(y)
+      if (bx !== null && by !== null) {
+        const ds = Array.isArray(by) ? by : [by]
+        const bs = Array.isArray(bx) ? bx : ds.map(() => bx)
+        let result = 0n, multiplier = 1n
+        for (let i = ds.length - 1; i >= 0; i--) {
+          result += ds[i] * multiplier
+          if (i > 0) multiplier *= bs[i]
+        }
+        const big = [x[0], y[0]].some(t => t === ImpT.BIG || t === ImpT.BIGs)
+        return big || !Number.isSafeInteger(Number(result)) ? ImpC.big(result) : ImpC.int(Number(result))
+      }
+
       // Extract bases
       let bases: number[]
       if (x[0] === ImpT.INT || x[0] === ImpT.NUM) {
@@ -2536,7 +2900,7 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
         bases = x[2] as number[]
       } else {
-        throw "encode: left argument must be numeric"
+        throw new ImpError('type', "encode: left argument must be numeric", x)
       }
 
       // Extract digits
@@ -2546,7 +2910,7 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (y[0] === ImpT.INTs || y[0] === ImpT.NUMs) {
         digits = y[2] as number[]
       } else {
-        throw "encode: right argument must be numeric"
+        throw new ImpError('type', "encode: right argument must be numeric", y)
       }
 
       // If x is a single number, repeat it for all digits
@@ -2579,7 +2943,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.STR) {
         sep = x[2] as string
       } else {
-        throw "split: left argument (separator) must be a string"
+        throw new ImpError('type', "split: left argument (separator) must be a string", x)
       }
 
       // Extract string to split
@@ -2587,7 +2951,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (y[0] === ImpT.STR) {
         str = y[2] as string
       } else {
-        throw "split: right argument must be a string"
+        throw new ImpError('type', "split: right argument must be a string", y)
       }
 
       // Split and convert to list of strings
@@ -2597,10 +2961,30 @@ export function createImpWords(): Record<string, ImpVal> {
       return imp.lst(undefined, result)
     }, 2),
 
-    'decode': imp.jsf((x: ImpVal, y: ImpVal) => {
+    'decode': imp.jsf(function decode(x: ImpVal, y: ImpVal): ImpVal {
       // decode[base; value] - split value into base representation
       // x is the base(s) - can be a single number or list of bases
-      // y is the value to decode
+      // y is the value to decode, or a vector of them (each decodes in turn)
+      if (y[0] === ImpT.INTs || y[0] === ImpT.BIGs) {
+        return imp.lst(undefined, colItems(y).map(v => decode(x, v)))
+      }
+
+      // A BIG value splits in bigints; its digits are ints
+      if (y[0] === ImpT.BIG) {
+        const bx = getBig(x)
+        if (bx === null) throw new ImpError('type', "decode: left argument must be integral for a big value", x)
+        const bases = Array.isArray(bx) ? bx : [bx]
+        const digits: number[] = []
+        let remaining = y[2]
+        for (let i = bases.length - 1; i >= 0; i--) {
+          const b = bases[i]
+          if (b === 0n) throw new ImpError('domain', "decode: base 0")
+          const digit = ((remaining % b) + b) % b
+          digits.unshift(Number(digit))
+          remaining = (remaining - digit) / b
+        }
+        return ImpC.ints(digits)
+      }
 
       // Extract bases
       let bases: number[]
@@ -2611,7 +2995,7 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
         bases = x[2] as number[]
       } else {
-        throw "decode: left argument must be numeric"
+        throw new ImpError('type', "decode: left argument must be numeric", x)
       }
 
       // Extract value
@@ -2619,7 +3003,7 @@ export function createImpWords(): Record<string, ImpVal> {
       if (y[0] === ImpT.INT || y[0] === ImpT.NUM) {
         value = y[2] as number
       } else {
-        throw "decode: right argument must be a number"
+        throw new ImpError('type', "decode: right argument must be a number")
       }
 
       // If single base, extend to match number of digits needed
@@ -2661,25 +3045,25 @@ export function createImpWords(): Record<string, ImpVal> {
       if (x[0] === ImpT.INT) {
         size = x[2] as number
       } else {
-        throw "window: left argument (window size) must be an integer"
+        throw new ImpError('type', "window: left argument (window size) must be an integer", x)
       }
 
       // Handle special cases
       if (size < 0) {
-        throw "window: negative window sizes not yet implemented"
+        throw new ImpError('nyi', "window: negative window sizes not yet implemented")
       }
       if (size === 0) {
-        throw "window: zero window size not yet implemented"
+        throw new ImpError('nyi', "window: zero window size not yet implemented")
       }
 
-      const [elements, wasString] = toArray(y)
+      const [elements, like] = toArray(y)
 
       // Create sliding windows
       const windows: ImpVal[] = []
 
       for (let i = 0; i <= elements.length - size; i++) {
         const windowItems = elements.slice(i, i + size)
-        windows.push(fromArray(windowItems, wasString, ImpQ.isLst(y) ? y[1] : undefined))
+        windows.push(fromArray(windowItems, like, ImpQ.isLst(y) ? y[1] : undefined))
       }
 
       return imp.lst(undefined, windows)
@@ -2698,29 +3082,29 @@ export function createImpWords(): Record<string, ImpVal> {
 
       // Extract interval bounds
       if (!ImpQ.isLst(interval) && interval[0] !== ImpT.INTs) {
-        throw "splice: interval must be a list [start end]"
+        throw new ImpError('type', "splice: interval must be a list [start end]", interval)
       }
 
       let start: number, end: number
       if (interval[0] === ImpT.INTs) {
         const bounds = interval[2] as number[]
         if (bounds.length !== 2) {
-          throw "splice: interval must have exactly 2 elements [start end]"
+          throw new ImpError('length', "splice: interval must have exactly 2 elements [start end]")
         }
         start = bounds[0]
         end = bounds[1]
       } else if (ImpQ.isLst(interval)) {
         const bounds = interval[2] as ImpVal[]
         if (bounds.length !== 2) {
-          throw "splice: interval must have exactly 2 elements [start end]"
+          throw new ImpError('length', "splice: interval must have exactly 2 elements [start end]")
         }
         if (bounds[0][0] !== ImpT.INT || bounds[1][0] !== ImpT.INT) {
-          throw "splice: interval elements must be integers"
+          throw new ImpError('type', "splice: interval elements must be integers")
         }
         start = bounds[0][2] as number
         end = bounds[1][2] as number
       } else {
-        throw "splice: invalid interval format"
+        throw new ImpError('type', "splice: invalid interval format")
       }
 
       // Check if value is a function
@@ -2738,7 +3122,7 @@ export function createImpWords(): Record<string, ImpVal> {
             transformedVal = await fn.call(this, substring)
           } else {
             // IFN - need to implement
-            throw "splice with implish function not yet implemented"
+            throw new ImpError('nyi', "splice with implish function not yet implemented")
           }
           const newStr = transformedVal[0] === ImpT.STR ? (transformedVal[2] as string) : String(transformedVal[2])
           const result = str.slice(0, start) + newStr + str.slice(end)
@@ -2761,7 +3145,7 @@ export function createImpWords(): Record<string, ImpVal> {
       } else if (ImpQ.isLst(list)) {
         elements = list[2] as ImpVal[]
       } else {
-        throw "splice: first argument must be a list or string"
+        throw new ImpError('type', "splice: first argument must be a list or string", list)
       }
 
       // Build the result by replacing the interval
@@ -2807,7 +3191,7 @@ export function createImpWords(): Record<string, ImpVal> {
           ]
         } else {
           // IFN - need to implement
-          throw "splice with implish function not yet implemented"
+          throw new ImpError('nyi', "splice with implish function not yet implemented")
         }
       } else {
         // Simple replacement with value
@@ -2828,48 +3212,155 @@ export function createImpWords(): Record<string, ImpVal> {
       return imp.lst(undefined, result)
     }, 3),
 
-    'try': imp.jsf(async function(this: any, fn: ImpVal, args: ImpVal) {
+    'try': imp.jsf(async function(this: ImpEvaluator, body: ImpVal, arg: ImpVal) {
       // try[fn; args] - calls fn with args, catches errors
-      // Returns [0; result] on success, [1; error-message] on failure
+      // Returns [0; result] on success, [1; error] on failure
       // Examples:
-      //   try[{plus[1; x]}; (1)] → [0 2]
-      //   try[{plus[1; x]}; (`a)] → [1; ?type]
+      //   try[plus; [1; 2]] → [0 3]
+      //   try[{[a; b] a + b}; [1; `b]] → [1; error[?type; "..."]]
+      //   try[plus[1]; 2] → [0 3]
+      // try[body; {handler}] - evaluates body; if it raises, returns handler[error]
+      //   try[1 + `a; {[e] 0}] → 0
+      // The first argument picks the form: a function is called, and anything
+      // else is a body (trap guards a body whose value is itself a function)
+      // (a special form: the evaluator passes both arguments unevaluated)
+      let fn: ImpVal
+      try {
+        fn = await forceArg(this, body)
+      } catch (error) {
+        const handler = await forceArg(this, arg)
+        if (!isFn(handler)) throw error
+        return await applyFn(this, handler, handler[1].arity === 0 ? [] : [ImpError.at(error).imp])
+      }
+      const second = await forceArg(this, arg)
+      if (!isFn(fn)) {
+        if (!isFn(second)) throw new ImpError('type', "try: first argument must be a function, or second a handler", fn)
+        return fn
+      }
+      // A list supplies one argument per item, except to a monadic function
+      let args: ImpVal[] = ImpQ.isLst(second) ? (second[2] as ImpVal[]).filter(v => v[0] !== ImpT.SEP) : [second]
+      if (fn[1].arity === 1 && args.length !== 1) args = [second]
+      try {
+        // Success: return [0; result]
+        return imp.lst(undefined, [ImpC.int(0), await applyFn(this, fn, args)])
+      } catch (error) {
+        // Failure: return [1; error]
+        return imp.lst(undefined, [ImpC.int(1), ImpError.at(error).imp])
+      }
+    }, 2),
 
+    'trap': imp.jsf(async function(this: ImpEvaluator, body: ImpVal, handler: ImpVal) {
+      // trap[body; {handler}] - evaluates body; if it raises, returns handler[error]
+      //   trap[1 + `a; {[e] 0}] → 0
+      // (a special form: the evaluator passes both arguments unevaluated)
+      const fn = await forceArg(this, handler)
+      if (!isFn(fn)) throw new ImpError('type', "trap: handler must be a function", fn)
       try {
-        // Apply function to arguments
-        let result: ImpVal
+        return await forceArg(this, body)
+      } catch (error) {
+        return await applyFn(this, fn, fn[1].arity === 0 ? [] : [ImpError.at(error).imp])
+      }
+    }, 2),
 
-        if (fn[0] === ImpT.JSF) {
-          // For JSF, need to extract arguments from the list/tuple
-          let argList: ImpVal[]
-          if (ImpQ.isLst(args)) {
-            argList = args[2] as ImpVal[]
-          } else {
-            argList = [args]
-          }
+    'finally': imp.jsf(async function(this: ImpEvaluator, body: ImpVal, cleanup: ImpVal) {
+      // finally[body; cleanup] - evaluates body, then always evaluates cleanup,
+      // even when body raised (the error is raised again once cleanup is done)
+      //   finally[rd %data.txt; echo "done"]
+      // cleanup may also be a function of no arguments: finally[body; {echo "done"}]
+      // (a special form: the evaluator passes both arguments unevaluated)
+      try {
+        return await forceArg(this, body)
+      } finally {
+        const done = await forceArg(this, cleanup)
+        if (isFn(done) && done[1].arity === 0) await applyFn(this, done, [])
+      }
+    }, 2),
 
-          const jsfn = fn[2] as any
-          result = await jsfn.call(this, ...argList)
-        } else if (ImpQ.isIfn(fn)) {
-          // For implish functions, use the same pattern as 'at'
-          const arity = fn[1].arity
-          if (arity !== 1) throw `try with implish function expects arity 1, got ${arity}`
+    'error': imp.jsf((k: ImpVal, msg: ImpVal) => {
+      // error[?domain; "negative size"] - build an error value without raising it
+      if (!ImpQ.isSym(k)) throw new ImpError('type', "error expects a category symbol like ?domain", k)
+      if (msg[0] !== ImpT.STR) throw new ImpError('type', "error expects a string message", msg)
+      return ImpC.err(msg[2] as string, k[2].description)
+    }, 2),
 
-          const body = fn[2] as ImpVal[]
-          throw "try with implish function not yet implemented"
-        } else {
-          throw "try: first argument must be a function"
-        }
+    'throw': imp.jsf((x: ImpVal) => {
+      // throw error[?domain; "..."] raises an error value (re-raising keeps its location)
+      // throw ?oops raises a bare category, and throw "message" raises an ?error
+      if (x[0] === ImpT.ERR) throw ImpError.from(x as ImpErr)
+      if (ImpQ.isSym(x) && x[1].kind === SymT.ERR) throw new ImpError(x[2].description!, x[2].description!)
+      if (x[0] === ImpT.STR) throw new ImpError('error', x[2] as string)
+      throw new ImpError('type', "throw expects an error value, ?category, or string", x)
+    }, 1),
 
-        // Success: return [0; result]
-        return imp.lst(undefined, [ImpC.int(0), result])
+    'catch': imp.jsf(async function(this: ImpEvaluator, expr: ImpVal) {
+      // catch[expr] - evaluate expr, returning its value or the error it raised
+      // (a special form: the evaluator passes expr unevaluated)
+      try {
+        return await forceArg(this, expr)
       } catch (error) {
-        // Failure: return [1; error-message]
-        const errorMsg = error instanceof Error ? error.message : String(error)
-        return imp.lst(undefined, [ImpC.int(1), ImpC.str(errorMsg)])
+        return ImpError.at(error).imp
       }
+    }, 1),
+
+    'limit': imp.jsf(async function(this: ImpEvaluator, spec: ImpVal, body: ImpVal) {
+      // limit[:[`steps 1000; `ms 50; `elements 100000]; body] - evaluates body
+      // within the given limits (and any already in force), raising ?limit past one
+      // (a special form: the evaluator passes body unevaluated)
+      const d = await forceArg(this, spec)
+      if (!ImpQ.isDct(d)) throw new ImpError('type', "limit expects a dictionary of limits", d)
+      const limits: ImpLimits = {}
+      for (const [k, v] of d[2]) {
+        if (k !== 'steps' && k !== 'ms' && k !== 'elements') throw new ImpError('domain', `limit: unknown limit ${k}; use steps, ms or elements`)
+        if (v[0] !== ImpT.INT || (v[2] as number) < 0) throw new ImpError('type', `limit: ${k} must be a non-negative integer`, v)
+        limits[k] = v[2] as number
+      }
+      return await this.withLimits(limits, () => forceArg(this, body))
     }, 2),
 
+    'errinfo': imp.jsf((x: ImpVal) => {
+      // errinfo e - the parts of an error value as a dictionary
+      if (x[0] !== ImpT.ERR) throw new ImpError('type', "errinfo expects an error value", x)
+      const [_, a, msg] = x as ImpErr
+      const info = new Map<string, ImpVal>()
+      info.set('kind', ImpC.sym(Symbol(a.kind), SymT.ERR))
+      info.set('msg', ImpC.str(msg))
+      if (a.value) info.set('value', a.value)
+      if (a.loc) info.set('at', ImpC.str(ImpLoc.where(a.loc)))
+      return imp.dct(info)
+    }, 1),
+
+    // Queries on tables: select[cols; from; where; by], exec, update, delete
+    // Special forms - cols, where and by see the table's columns as words:
+    //   select[; t; qty > 10]                  rows where qty > 10
+    //   select[:[`total +/ qty]; t; ; `sym]     total qty per sym
+    //   update[:[`qty qty * 2]; t; sym = `a]    double the qty of `a rows
+    //   delete[; t; qty < 5]                   drop rows; delete[`qty; t] drops a column
+    'select': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
+      return await select(this, await queryArgs(this, 'select', args))
+    }, -1),
+
+    'exec': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
+      // like select, but gives the column itself (or a dictionary per group)
+      return await exec(this, await queryArgs(this, 'exec', args))
+    }, -1),
+
+    'update': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
+      return await update(this, await queryArgs(this, 'update', args))
+    }, -1),
+
+    'delete': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
+      return await del(this, await queryArgs(this, 'delete', args))
+    }, -1),
+
+    // Joins on key columns: lj[`sym; t1; t2] adds t2's columns to each row of t1
+    // (nulls where t2 has no match), ij keeps only matched rows, uj also appends
+    // t2's unmatched rows, and aj[`sym `time; t1; t2] matches the last key as-of:
+    // the latest t2 row at or before each t1 row, with t2 sorted on that column
+    'lj': imp.jsf(async function(this: ImpEvaluator, k, x, y) { return await lj(this, k, x, y) }, 3),
+    'ij': imp.jsf(async function(this: ImpEvaluator, k, x, y) { return await ij(this, k, x, y) }, 3),
+    'uj': imp.jsf(async function(this: ImpEvaluator, k, x, y) { return await uj(this, k, x, y) }, 3),
+    'aj': imp.jsf(async function(this: ImpEvaluator, k, x, y) { return await aj(this, k, x, y) }, 3),
+
     'cond': imp.jsf(async function(this: ImpEvaluator, ...args: ImpVal[]) {
       // cond[condition1; value1; condition2; value2; ...; default]
       // Like Lisp cond: evaluates conditions in pairs, returns first matching value
@@ -2877,9 +3368,11 @@ export function createImpWords(): Record<string, ImpVal> {
       // Examples:
       //   cond[1; "A"; 0; "B"; "C"] → "A"
       //   cond[0; "A"; 0; "B"; "C"] → "C"
+      let branch = this.tailForm ? this.lastEvalTail : this.lastEval
+      this.tailForm = false
 
       if (args.length < 3) {
-        throw "cond: requires at least 3 arguments (condition, value, default)"
+        throw new ImpError('valence', "cond: requires at least 3 arguments (condition, value, default)")
       }
 
       // Process pairs of (condition, value)
@@ -2895,22 +3388,10 @@ export function createImpWords(): Record<string, ImpVal> {
           condResult = condArg
         }
 
-        // Check if truthy (K semantics: 0, 0x00, nil are falsy)
-        let isTruthy = false
-        if (condResult[0] === ImpT.INT || condResult[0] === ImpT.NUM) {
-          isTruthy = (condResult[2] as number) !== 0
-        } else if (condResult[0] === ImpT.NIL) {
-          isTruthy = false
-        } else if (condResult[0] === ImpT.STR && condResult[2] === "\x00") {
-          isTruthy = false
-        } else {
-          isTruthy = true
-        }
-
         // If truthy, evaluate and return the value
-        if (isTruthy) {
+        if (truthy(condResult)) {
           if (ImpQ.isLst(valueArg) || ImpQ.isTop(valueArg)) {
-            return await this.lastEval(valueArg)
+            return await branch(valueArg)
           } else {
             return valueArg
           }
@@ -2920,7 +3401,7 @@ export function createImpWords(): Record<string, ImpVal> {
       // No conditions matched, return default (last argument)
       const defaultArg = args[args.length - 1]
       if (ImpQ.isLst(defaultArg) || ImpQ.isTop(defaultArg)) {
-        return await this.lastEval(defaultArg)
+        return await branch(defaultArg)
       } else {
         return defaultArg
       }
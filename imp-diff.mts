@@ -0,0 +1,81 @@
+#!/usr/bin/node
+/** Differential test: run every test block in the given org files with both
+ * evaluators, the flat one and the tree walker, and report where they differ.
+ *
+ *   node dist/imp-diff.mjs imp-tests.org prim-tests.org [name-filter]
+ *
+ * Each block runs as the quiet REPL (imp -q) would run its > lines, from fresh
+ * words, once per evaluator.  The expected output in the file isn't checked;
+ * only the two runs are compared.  Exits with 1 if any block differs.
+ */
+import * as fs from "fs";
+import { ImpT } from "./imp-core.mjs";
+import { ImpLoader } from "./imp-load.mjs";
+import { impShow } from "./imp-show.mjs";
+import { impEval, resetWords, setInputProvider, setOutputProvider } from "./imp-eval.mjs";
+
+type Block = {file: string, name: string, lines: string[]}
+
+// the > lines of each TEST block, as tanco reads them
+function testBlocks(file: string): Block[] {
+  let blocks: Block[] = [], name: string | null = null, lines: string[] | null = null
+  for (let line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    let m = line.match(/^\*+ TEST (\S+)/)
+    if (m) { name = m[1]; continue }
+    if (/^\*+ /.test(line)) name = null
+    else if (name && /^#\+begin_src( imp)?\s*$/.test(line)) lines = []
+    else if (lines && /^#\+end_src/.test(line)) { blocks.push({file, name: name!, lines}); name = null; lines = null }
+    else if (lines && line.startsWith('>')) lines.push(line.replace(/^> ?/, ''))
+  }
+  return blocks
+}
+
+// the output of a block's lines, one evaluator's way
+async function run(lines: string[], treeWalk: boolean): Promise<string[]> {
+  let out: string[] = [], next = 0
+  resetWords()
+  setOutputProvider({writeLine: (text: string) => { out.push(text) }})
+  // rln reads the lines after the one being run, as in the REPL
+  setInputProvider({readLine: async () => {
+    if (next >= lines.length) throw new Error('End of input')
+    return lines[next++] }})
+  let il = new ImpLoader()
+  while (next < lines.length) {
+    try {
+      il.sendLine(lines[next++])
+      if (il.diagnostics.length) {
+        for (let d of il.diagnostics) out.push("Error: " + d)
+        il.reset()
+        continue
+      }
+      if (il.waiting) continue
+      let r = il.read()
+      if (r) {
+        let e = await impEval(r, treeWalk)
+        if (e[0] !== ImpT.NIL) out.push(impShow(e))
+      }
+    } catch (e) {
+      out.push("Error: " + e)
+    }
+  }
+  // input that ends inside brackets is reported, as in the REPL
+  if (il.waiting) for (let d of il.finish().diagnostics) out.push("Error: " + d)
+  return out
+}
+
+let files = process.argv.slice(2).filter(a => a.endsWith('.org'))
+let filter = process.argv.slice(2).find(a => !a.endsWith('.org'))
+let blocks = files.flatMap(testBlocks).filter(b => !filter || b.name.includes(filter))
+let differ = 0
+for (let b of blocks) {
+  let flat = await run(b.lines, false)
+  let tree = await run(b.lines, true)
+  if (flat.join('\n') === tree.join('\n')) continue
+  differ++
+  console.log(`${b.file}: ${b.name}`)
+  console.log('--- flat\n' + flat.join('\n'))
+  console.log('--- tree\n' + tree.join('\n') + '\n')
+}
+setInputProvider(null)
+console.log(`${blocks.length} blocks, ${differ} differ`)
+process.exit(differ ? 1 : 0)
@@ -14,10 +14,11 @@ import {
   ImpJsfA,
   ImpIfn,
   ImpIfnA,
-  ImpStr, ImpC, ImpTop, ImpErr, ImpLst, ImpDct
+  ImpStr, ImpC, ImpTop, ImpErr, ImpLst, ImpDct, ImpEnv, ImpError, ImpLoc
 } from './imp-core.mjs'
 import {impShow} from './imp-show.mjs'
-import {imparse} from './im-parse.mjs'
+import {tabColumn, colOf} from './imp-table.mjs'
+import {imparse, scanArity, scanSignature, sourceOf} from './im-parse.mjs'
 import {
   createImpWords,
   setInputProvider as setInputProviderDefs,
@@ -55,46 +56,22 @@ export function resetWords() {
   impWords = createImpWords()
 }
 
-// Scan AST for implicit parameters x, y, z to determine function arity
-// Does NOT scan inside nested curly brace functions
-function scanArity(body: ImpVal[]): number {
-  let hasZ = false, hasY = false, hasX = false
-
-  function scan(x: ImpVal): void {
-    // If it's a RAW symbol, check if it's x, y, or z
-    if (ImpQ.isSym(x) && x[1].kind === SymT.RAW) {
-      let name = x[2].description!
-      if (name === 'z') hasZ = true
-      else if (name === 'y') hasY = true
-      else if (name === 'x') hasX = true
-    }
-    // If it's a GET symbol (:x, :y, :z), also count those
-    else if (ImpQ.isSym(x) && x[1].kind === SymT.GET) {
-      let name = x[2].description!
-      if (name === 'z') hasZ = true
-      else if (name === 'y') hasY = true
-      else if (name === 'x') hasX = true
-    }
-    // Recursively scan lists, but NOT curly brace lists (nested functions)
-    else if (ImpQ.isLst(x)) {
-      // Skip if this is a curly brace list (nested function)
-      if (x[1].open === '{') return
-      // Otherwise scan the contents
-      for (let item of x[2]) scan(item)
-    }
-    // Also scan TOP nodes
-    else if (ImpQ.isTop(x)) {
-      for (let item of x[2]) scan(item)
-    }
-  }
+// Bounds on one evaluation, each optional.  Passing one, or an abort from the
+// signal, raises ?limit (see ImpEvaluator.check)
+export type ImpLimits = {
+  steps?: number      // lists evaluated, loop passes, calls, items mapped or folded
+  ms?: number         // wall time, in milliseconds
+  elements?: number   // items in the values built, counted as each list produces them
+  signal?: AbortSignal
+}
 
-  for (let item of body) scan(item)
+// what an evaluation has used of its limits, shared with any evaluation it
+// starts (such as value's)
+export type ImpUsage = {steps: number, elements: number, start: number}
 
-  if (hasZ) return 3
-  if (hasY) return 2
-  if (hasX) return 1
-  return 0
-}
+// the items in a value, for the elements limit
+const itemCount = (x: ImpVal): number =>
+  Array.isArray(x[2]) ? x[2].length : x[2] instanceof Map ? x[2].size : 1
 
 function wordClass(x:ImpVal) {
     let [xt, _xa, _xv] = x
@@ -104,6 +81,13 @@ function wordClass(x:ImpVal) {
       case ImpT.SEP: return ImpP.E  // Treat separator as end-like (stops collection)
       case ImpT.INT: return ImpP.N
       case ImpT.NUM: return ImpP.N
+      case ImpT.BIG: return ImpP.N
+      case ImpT.CHR: return ImpP.N
+      case ImpT.BOOL: return ImpP.N
+      case ImpT.DATE: return ImpP.N
+      case ImpT.TIME: return ImpP.N
+      case ImpT.TIMESTAMP: return ImpP.N
+      case ImpT.TIMESPAN: return ImpP.N
       case ImpT.STR: return ImpP.N
       case ImpT.MLS: return ImpP.N
       case ImpT.SYM: return ImpP.N
@@ -111,15 +95,25 @@ function wordClass(x:ImpVal) {
       case ImpT.DCT: return ImpP.N
       case ImpT.INTs: return ImpP.N
       case ImpT.NUMs: return ImpP.N
+      case ImpT.BIGs: return ImpP.N
       case ImpT.SYMs: return ImpP.N
+      case ImpT.CHRs: return ImpP.N
+      case ImpT.BOOLs: return ImpP.N
+      case ImpT.BYTEs: return ImpP.N
+      case ImpT.DATEs: return ImpP.N
+      case ImpT.TIMEs: return ImpP.N
+      case ImpT.TIMESTAMPs: return ImpP.N
+      case ImpT.TIMESPANs: return ImpP.N
       // -- resolved symbols:
       case ImpT.JSF: return ImpP.V
       case ImpT.IFN: return ImpP.V
       case ImpT.NIL: return ImpP.N
-      default: throw "[wordClass] invalid argument:" + x }}
+      case ImpT.ERR: return ImpP.N
+      case ImpT.TAB: return ImpP.N
+      default: throw new ImpError('type', "[wordClass] invalid argument:" + x) }}
 
 export class ImpEvaluator {
-  words: Record<string, ImpVal> = impWords
+  words: ImpEnv = impWords
   root: ImpVal[]
   here: ImpVal[]
   stack: [ImpVal[], number, ImpP[]][] = []
@@ -128,9 +122,86 @@ export class ImpEvaluator {
   wc: ImpP | undefined = undefined
   pos: number = 0
   wcs: ImpP[] = [];
+  // evaluate lists by walking the tree imparse gives (walkList), rather than
+  // with the flat peek/nextItem machinery
+  treeWalk: boolean
+  // the implish functions being applied, innermost last, each with the words
+  // it was called from (for naming it in a ?stack error)
+  calls: [ImpIfn, ImpEnv][] = []
+  maxDepth = 10000
+  // a call in tail position, left by project for applyIfn's loop to make
+  tailCall: {fn: ImpIfn, args: ImpVal[]} | null = null
+  // set while project applies ite or cond in tail position; they read and
+  // clear it on entry, and evaluate their branches in tail position too
+  tailForm = false
+
+  limits: ImpLimits
+  used: ImpUsage
+  // whether any limit is set; without one, nothing is counted or checked
+  limited: boolean
+
+  constructor(root: ImpVal[], treeWalk = false, limits: ImpLimits = {},
+              used: ImpUsage = {steps: 0, elements: 0, start: Date.now()}) {
+    this.here = this.root = root
+    this.treeWalk = treeWalk
+    this.limits = limits
+    this.used = used
+    this.limited = Object.values(limits).some(x => x !== undefined) }
+
+  // count a step, and the elements just built, against the limits, raising
+  // ?limit once one is passed or the signal aborts.  Now and then this waits
+  // for the event loop, so an abort from a timer or Ctrl-C can arrive even
+  // while the evaluation itself never waits on anything
+  check = async (elements = 0): Promise<void> => {
+    let {limits, used} = this
+    used.steps++
+    used.elements += elements
+    if (limits.steps !== undefined && used.steps > limits.steps)
+      throw new ImpError('limit', `step limit reached: ${limits.steps} steps`)
+    if (limits.elements !== undefined && used.elements > limits.elements)
+      throw new ImpError('limit', `element limit reached: ${limits.elements} elements`)
+    if (used.steps % 1024 === 0) {
+      if (limits.signal) await new Promise(resolve => setTimeout(resolve))
+      if (limits.ms !== undefined && Date.now() - used.start > limits.ms)
+        throw new ImpError('limit', `time limit reached: ${limits.ms}ms`)
+    }
+    if (limits.signal?.aborted) throw new ImpError('limit', 'evaluation cancelled')
+  }
+
+  // run f under limits of its own, narrowed to what is left of the enclosing
+  // ones (so it can't escape them), then count what it used against those
+  withLimits = async <T,>(limits: ImpLimits, f: () => Promise<T>): Promise<T> => {
+    let outer = this.limits, used = this.used, now = Date.now()
+    let left = (inner: number | undefined, limit: number | undefined, spent: number) =>
+      limit === undefined ? inner : Math.min(inner ?? Infinity, limit - spent)
+    this.limits = {
+      steps: left(limits.steps, outer.steps, used.steps),
+      ms: left(limits.ms, outer.ms, now - used.start),
+      elements: left(limits.elements, outer.elements, used.elements),
+      signal: outer.signal }
+    this.used = {steps: 0, elements: 0, start: now}
+    this.limited = true
+    try { return await f() }
+    finally {
+      used.steps += this.used.steps
+      used.elements += this.used.elements
+      this.limits = outer
+      this.used = used
+      this.limited = Object.values(outer).some(x => x !== undefined) }
+  }
 
-  constructor(root: ImpVal[]) {
-    this.here = this.root = root }
+  // check only runs between steps, so a primitive that builds or folds many
+  // items in one go calls this first, and every so often as it goes: it
+  // raises ?limit if n more elements would pass the limit, or time is up
+  reserve = (n = 0): void => {
+    if (!this.limited) return
+    let {limits, used} = this
+    if (limits.elements !== undefined && used.elements + n > limits.elements)
+      throw new ImpError('limit', `element limit reached: ${limits.elements} elements`)
+    if (limits.ms !== undefined && Date.now() - used.start > limits.ms)
+      throw new ImpError('limit', `time limit reached: ${limits.ms}ms`)
+    if (limits.signal?.aborted) throw new ImpError('limit', 'evaluation cancelled')
+  }
 
   enter = (xs:ImpLst|ImpTop): void => {
     this.stack.push([this.here, this.pos, this.wcs])
@@ -143,6 +214,17 @@ export class ImpEvaluator {
   }
   atEnd = (): boolean => this.pos >= this.here.length
 
+  // the value of a word; names ending in / or \ that aren't defined are the
+  // fold and scan of a dyadic verb (+/ and +\), made on each lookup
+  lookup = (name: string): ImpVal | undefined => {
+    let w = this.words[name]
+    if (w || !(name.endsWith('/') || name.endsWith('\\'))) return w
+    let baseName = name.slice(0, -1)
+    let baseOp = this.words[baseName]
+    if (!baseOp || baseOp[0] !== ImpT.JSF || baseOp[1].arity !== 2) return undefined
+    return name.endsWith('/') ? this.createFoldOperator(baseName, baseOp) : this.createScanOperator(baseName, baseOp)
+  }
+
   /// sets this.item and this.wc
   nextItem = (): ImpVal => {
     let x = (this.pos >= this.here.length) ? END : this.here[this.pos++]
@@ -152,25 +234,19 @@ export class ImpEvaluator {
         case SymT.RAW: {
           // Normal symbol, so look it up
           let name = x[2].description!
-          let w = this.words[name]
-
-          // If not found and ends with '/' or '\', try to create a fold/scan operator
-          if (!w && (name.endsWith('/') || name.endsWith('\\'))) {
-            let baseName = name.slice(0, -1)
-            let baseOp = this.words[baseName]
-
-            if (baseOp && (baseOp[0] === ImpT.JSF && baseOp[1].arity === 2)) {
-              // Create the fold or scan operator (don't cache it)
-              if (name.endsWith('/')) {
-                w = this.createFoldOperator(baseName, baseOp)
-              } else {
-                w = this.createScanOperator(baseName, baseOp)
-              }
-            }
-          }
+          let w = this.lookup(name)
 
           if (w) x = w, this.wc = this.wordClass(w)
-          else throw "undefined word: " + name
+          else throw new ImpError('value', "undefined word: " + name, x, ImpLoc.get(x))
+          break
+        }
+        case SymT.PATH: {
+          // t/price looks up a column of a table (or key of a dictionary);
+          // paths that don't start with a known word stay literal symbols
+          let [head, ...keys] = x[2].description!.split('/')
+          let w = this.words[head]
+          if (w) x = this.followPath(w, keys, x)
+          this.wc = ImpP.N
           break
         }
         case SymT.SET:  this.wc = ImpP.S; break  // set-word
@@ -200,15 +276,10 @@ export class ImpEvaluator {
     return {item: peekItem, wc: peekWC}}
 
   modifyNoun = async (x: ImpVal): Promise<ImpVal> => {
-    // NOTE: imparse() now handles prefix/infix/postfix/comma threading
-    // This code ONLY runs for cases that imparse deliberately skipped:
-    // - Special symbols (SET, GET, LIT): 1 + a: 10, 2, + x: 5
-    //
-    // For all other cases, imparse transforms to M-expressions (+[2; 3])
-    // and the evaluator handles them via project() instead.
-    //
-    // TODO: Once imparse handles special symbols, this entire
-    // function can be deleted and eval can just handle M-expressions.
+    // NOTE: imparse() turns prefix/infix/postfix/comma threading into
+    // M-expressions (+[2; 3]), which the evaluator handles via project().
+    // This code ONLY runs for what imparse left flat: words it couldn't know
+    // were verbs, such as a function passed in as an argument ({[g; v] g v}).
 
     // Handle dictionary backtick indexing: d`key
     let res = x
@@ -237,7 +308,7 @@ export class ImpEvaluator {
           }
           res = imp.lst(undefined, results)
         } else {
-          throw "dictionary keys must be backtick symbols"
+          throw new ImpError('type', "dictionary keys must be backtick symbols")
         }
       }
     }
@@ -307,7 +378,7 @@ export class ImpEvaluator {
     }
     // Check for END (ran out of input)
     if (res[0] === ImpT.END) {
-      throw "unexpected end of input (missing argument?)"
+      throw new ImpError('valence', "unexpected end of input (missing argument?)")
     }
     // Handle different word classes
     if (this.wc === ImpP.S) {
@@ -315,10 +386,10 @@ export class ImpEvaluator {
       return await this.doAssign(res)
     } else if (this.wc === ImpP.G) {
       // Get-word - look up and evaluate the variable
-      if (!ImpQ.isSym(res)) throw "get-word must be a symbol"
+      if (!ImpQ.isSym(res)) throw new ImpError('type', "get-word must be a symbol")
       let varName = res[2].description!
       let value = this.words[varName]
-      if (!value) throw "undefined word: " + varName
+      if (!value) throw new ImpError('value', "undefined word: " + varName)
       return await this.eval(value)
     } else if (this.wc === ImpP.V) {
       // Handle verb directly (e.g., `{x * 2} ! 10`)
@@ -364,7 +435,7 @@ export class ImpEvaluator {
         }
       }
     } else if (this.wc !== ImpP.N && this.wc !== ImpP.Q) {
-      throw "expected a noun, got: " + impShow(res)
+      throw new ImpError('type', "expected a noun, got: " + impShow(res))
     }
     // Evaluate the noun (strands are already formed by imparse())
     return await this.eval(res)
@@ -372,7 +443,7 @@ export class ImpEvaluator {
 
   // Handle assignment - recursively processes chained assignments
   doAssign = async (sym: ImpVal): Promise<ImpVal> => {
-    if (!ImpQ.isSym(sym)) throw "set-word must be a symbol"
+    if (!ImpQ.isSym(sym)) throw new ImpError('type', "set-word must be a symbol")
     let varName = sym[2].description!
     let nextX = this.nextItem()
     let value: ImpVal
@@ -382,10 +453,10 @@ export class ImpEvaluator {
       value = await this.doAssign(nextX)
     } else if (this.wc === ImpP.G) {
       // Get-word - look up value without evaluation
-      if (!ImpQ.isSym(nextX)) throw "get-word must be a symbol"
+      if (!ImpQ.isSym(nextX)) throw new ImpError('type', "get-word must be a symbol")
       let getVarName = nextX[2].description!
       value = this.words[getVarName]
-      if (!value) throw "undefined word: " + getVarName
+      if (!value) throw new ImpError('value', "undefined word: " + getVarName)
     } else if (this.wc === ImpP.N) {
       value = await this.eval(nextX)
       // Apply infix operators (strands are already formed by imparse())
@@ -436,7 +507,7 @@ export class ImpEvaluator {
     } else if (this.wc === ImpP.Q) {
       value = nextX
     } else {
-      throw "invalid expression after set-word"
+      throw new ImpError('type', "invalid expression after set-word")
     }
     this.words[varName] = value
     return value
@@ -474,43 +545,97 @@ export class ImpEvaluator {
     }
 
     if (args.length !== fn[1].arity) {
-      throw `IFN arity mismatch: expected ${fn[1].arity}, got ${args.length}`
+      throw new ImpError('valence', `IFN arity mismatch: expected ${fn[1].arity}, got ${args.length}`)
     }
 
-    // Save current word bindings for x, y, z
-    let savedX = this.words['x']
-    let savedY = this.words['y']
-    let savedZ = this.words['z']
-
-    // Bind parameters
-    if (args.length >= 1) this.words['x'] = args[0]
-    if (args.length >= 2) this.words['y'] = args[1]
-    if (args.length >= 3) this.words['z'] = args[2]
-
-    // Execute body
-    let body: ImpLst = imp.lst({open: '{', close: '}'}, fn[2])
-    let result = await this.lastEval(body)
-
-    // Restore word bindings
-    if (savedX !== undefined) this.words['x'] = savedX
-    else delete this.words['x']
-    if (savedY !== undefined) this.words['y'] = savedY
-    else delete this.words['y']
-    if (savedZ !== undefined) this.words['z'] = savedZ
-    else delete this.words['z']
-
-    return result
+    let frame = this.frame(fn, args, this.words)
+    // Execute body in the new frame, restoring the caller's scope afterwards.
+    // A call in tail position comes back in tailCall and runs here in place of
+    // this one, so tail recursion doesn't nest
+    let saved = this.words
+    if (this.calls.length >= this.maxDepth) throw this.stackError(fn)
+    // let the host stack unwind now and then: calls that never wait on
+    // anything nest on it, and would overflow it long before maxDepth
+    if (this.calls.length % 256 === 255) await null
+    this.calls.push([fn, saved])
+    try {
+      while (true) {
+        if (this.limited) await this.check()
+        this.words = frame
+        let result = await this.lastEvalTail(imp.lst({open: '{', close: '}'}, fn[2]))
+        if (!this.tailCall) return result
+        let caller = this.words
+        ;({fn, args} = this.tailCall)
+        this.tailCall = null
+        this.calls[this.calls.length - 1] = [fn, caller]
+        frame = this.frame(fn, args, caller)
+      }
+    } catch (e) {
+      if (e instanceof RangeError && /call stack/.test(e.message)) throw this.stackError()
+      throw e
+    } finally {
+      this.words = saved
+      this.calls.pop()
+    }
+  }
+
+  // Each call gets a fresh frame chained to the scope the function closed over,
+  // so parameters and set-words stay local while free words resolve lexically.
+  // `self` is the function itself (the whole function, when called through a
+  // projection), so an anonymous function can recurse
+  frame = (fn: ImpIfn, args: ImpVal[], caller: ImpEnv): ImpEnv => {
+    let frame: ImpEnv = Object.create(fn[1].env ?? caller)
+    frame.self = fn
+    let params = fn[1].params ?? ['x', 'y', 'z'].slice(0, fn[1].arity)
+    params.forEach((name, i) => frame[name] = args[i])
+    return frame
+  }
+
+  // the ?stack error for calls nested too deeply (beyond maxDepth, or the
+  // host's own stack), showing the chain of calls, outermost first
+  stackError = (next?: ImpIfn): ImpError => {
+    let chain = this.calls.map(([f, words]) => this.callName(f, words))
+    if (next) chain.push(this.callName(next, this.words))
+    let runs: string[] = []
+    for (let i = 0; i < chain.length;) {
+      let j = i
+      while (j < chain.length && chain[j] === chain[i]) j++
+      runs.push(j - i > 1 ? `${chain[i]} ×${j - i}` : chain[i])
+      i = j
+    }
+    if (runs.length > 8) runs = [...runs.slice(0, 3), '...', ...runs.slice(-4)]
+    return new ImpError('stack', `stack overflow: ${chain.length} nested calls: ${runs.join(' > ')}`)
+  }
+
+  // the name a function has in the words it was called from, or {...}
+  // (self only when it has no other)
+  callName = (f: ImpIfn, words: ImpEnv): string => {
+    let res = '{...}'
+    for (let name in words) if (words[name] === f) {
+      if (name !== 'self') return name
+      res = name }
+    return res
   }
 
   wordClass = (x: ImpVal): ImpP => wordClass(x)
 
+  // walk the rest of a path like t/price through tables and dictionaries
+  followPath = (x: ImpVal, keys: string[], path: ImpVal): ImpVal => {
+    for (let key of keys) {
+      if (ImpQ.isTab(x)) x = tabColumn(x, key)
+      else if (ImpQ.isDct(x) && x[2].has(key)) x = x[2].get(key)!
+      else throw new ImpError('value', `path ${impShow(path)}: no ${key}`, path, ImpLoc.get(path))
+    }
+    return x
+  }
+
   // Evaluate quasiquoted expressions - walk the tree and evaluate unquoted items
   quasiquote = async (x: ImpVal): Promise<ImpVal> => {
     // If it's a symbol with UNQ kind, evaluate it
     if (ImpQ.isSym(x) && x[1].kind === SymT.UNQ) {
       // Look up the symbol (without the comma prefix)
       let w = this.words[x[2].description!]
-      if (!w) throw "undefined word: " + x[2].description
+      if (!w) throw new ImpError('value', "undefined word: " + x[2].description)
       let result = await this.eval(w)
       // If the result is a LIT or BQT symbol, strip the quote marker
       if (ImpQ.isSym(result) && (result[1].kind === SymT.LIT || result[1].kind === SymT.BQT)) {
@@ -522,7 +647,7 @@ export class ImpEvaluator {
     if (ImpQ.isLst(x)) {
       // First parse to combine adjacent literals into strands
       // Pass this.words so imparse can do full transformations
-      let refined = imparse(x, this.words)
+      let refined = imparse(x, this.words, false)
 
       // imparse might return TOP or LST - extract items appropriately
       let items: ImpVal[]
@@ -559,7 +684,7 @@ export class ImpEvaluator {
       this.keep(p)
       switch (p.wc) {
         case ImpP.V: // composition (v u) - handle async
-          if (res[1].arity as number !== 1) throw "composition requires arity 1"
+          if (res[1].arity as number !== 1) throw new ImpError('valence', "composition requires arity 1")
           let u = res[2] as JSF
           let v = p.item[2] as JSF
           res = imp.jsf(async (x) => {
@@ -584,7 +709,7 @@ export class ImpEvaluator {
   createFoldOperator = (baseName: string, baseOp: ImpVal): ImpVal => {
     return imp.jsf(async x => {
       // Handle scalar input - just return it
-      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.SYM) {
+      if (x[0] === ImpT.INT || x[0] === ImpT.NUM || x[0] === ImpT.BIG || x[0] === ImpT.SYM) {
         return x
       }
 
@@ -597,25 +722,26 @@ export class ImpEvaluator {
         if (nums.length === 0) {
           let identity = foldIdentities[baseName]
           if (identity === undefined) {
-            throw `${baseName}/ has no identity value for empty arrays`
+            throw new ImpError('domain', `${baseName}/ has no identity value for empty arrays`)
           }
           return isInts ? ImpC.int(identity) : ImpC.num(identity)
         }
 
-        // Handle single element
+        // Handle single element: the fold of one item is that item
         if (nums.length === 1) {
-          return x
+          return isInts ? ImpC.int(nums[0]) : ImpC.num(nums[0])
         }
 
         // Get the dyadic function (JSF with arity 2)
         if (baseOp[0] !== ImpT.JSF || baseOp[1].arity !== 2) {
-          throw `${baseName}/ requires a JSF with arity 2`
+          throw new ImpError('valence', `${baseName}/ requires a JSF with arity 2`)
         }
         let dyadicFn = baseOp[2] as (x: ImpVal, y: ImpVal) => ImpVal | Promise<ImpVal>
 
         // Perform the fold operation
         let result = nums[0]
         for (let i = 1; i < nums.length; i++) {
+          if (i % 4096 === 0) this.reserve()
           let xVal = isInts ? ImpC.int(result) : ImpC.num(result)
           let yVal = isInts ? ImpC.int(nums[i]) : ImpC.num(nums[i])
           let folded = dyadicFn(xVal, yVal)
@@ -632,7 +758,14 @@ export class ImpEvaluator {
             result = folded[2] as number
             isInts = false  // If we get a NUM, result should be NUM
           } else {
-            throw `${baseName}/ produced non-numeric result`
+            // past a plain number (a big integer once * overflows, say), carry
+            // on with the value itself
+            let acc: ImpVal = folded
+            for (i++; i < nums.length; i++) {
+              if (i % 4096 === 0) this.reserve()
+              acc = await dyadicFn(acc, isInts ? ImpC.int(nums[i]) : ImpC.num(nums[i]))
+            }
+            return acc
           }
         }
 
@@ -642,7 +775,7 @@ export class ImpEvaluator {
       // General case: use the 'over' adverb for lists, strings, etc.
       const overFn = this.words['over']
       if (!overFn) {
-        throw `${baseName}/ requires 'over' adverb for non-numeric sequences`
+        throw new ImpError('value', `${baseName}/ requires 'over' adverb for non-numeric sequences`)
       }
 
       // Apply over[baseOp; x]
@@ -650,7 +783,7 @@ export class ImpEvaluator {
         return await (overFn as ImpJsf)[2].apply(this, [baseOp, x])
       }
 
-      throw `${baseName}/ could not apply fold operation`
+      throw new ImpError('type', `${baseName}/ could not apply fold operation`)
     }, 1)
   }
 
@@ -668,6 +801,9 @@ export class ImpEvaluator {
       if (x[0] === ImpT.SYM) {
         return ImpC.syms([x[2] as symbol])
       }
+      if (x[0] === ImpT.BIG) {
+        return ImpC.bigs([x[2] as bigint])
+      }
 
       // Try numeric-only path first for backward compatibility
       if (x[0] === ImpT.INTs || x[0] === ImpT.NUMs) {
@@ -690,15 +826,17 @@ export class ImpEvaluator {
 
         // Get the dyadic function (JSF with arity 2)
         if (baseOp[0] !== ImpT.JSF || baseOp[1].arity !== 2) {
-          throw `${baseName}\\ requires a JSF with arity 2`
+          throw new ImpError('valence', `${baseName}\\ requires a JSF with arity 2`)
         }
         let dyadicFn = baseOp[2] as (x: ImpVal, y: ImpVal) => ImpVal | Promise<ImpVal>
 
         // Perform the scan operation - collect all intermediate results
+        this.reserve(nums.length)
         let results: number[] = [nums[0]]
         let result = nums[0]
 
         for (let i = 1; i < nums.length; i++) {
+          if (i % 4096 === 0) this.reserve()
           let xVal = isInts ? ImpC.int(result) : ImpC.num(result)
           let yVal = isInts ? ImpC.int(nums[i]) : ImpC.num(nums[i])
           let folded = dyadicFn(xVal, yVal)
@@ -715,7 +853,17 @@ export class ImpEvaluator {
             result = folded[2] as number
             isInts = false  // If we get a NUM, result should be NUM
           } else {
-            throw `${baseName}\\ produced non-numeric result`
+            // past a plain number (a big integer once * overflows, say), carry
+            // on with the values themselves, and build the narrowest column
+            let items: ImpVal[] = results.map(n => isInts ? ImpC.int(n) : ImpC.num(n))
+            let acc: ImpVal = folded
+            items.push(acc)
+            for (i++; i < nums.length; i++) {
+              if (i % 4096 === 0) this.reserve()
+              acc = await dyadicFn(acc, isInts ? ImpC.int(nums[i]) : ImpC.num(nums[i]))
+              items.push(acc)
+            }
+            return colOf(items)
           }
 
           results.push(result)
@@ -727,7 +875,7 @@ export class ImpEvaluator {
       // General case: use the 'scan' adverb for lists, strings, etc.
       const scanFn = this.words['scan']
       if (!scanFn) {
-        throw `${baseName}\\ requires 'scan' adverb for non-numeric sequences`
+        throw new ImpError('value', `${baseName}\\ requires 'scan' adverb for non-numeric sequences`)
       }
 
       // Apply scan[baseOp; x]
@@ -735,24 +883,39 @@ export class ImpEvaluator {
         return await (scanFn as ImpJsf)[2].apply(this, [baseOp, x])
       }
 
-      throw `${baseName}\\ could not apply scan operation`
+      throw new ImpError('type', `${baseName}\\ could not apply scan operation`)
     }, 1)
   }
 
   // evaluate a list
   evalList = async (xs:ImpLst|ImpTop): Promise<ImpVal[]> => {
     // First, parse/normalize the tree (strands + M-expressions)
-    xs = imparse(xs, this.words) as ImpLst|ImpTop
+    // (one level at a time: nested lists are parsed when they're reached, from
+    // their source, with the words bound by then)
+    try { xs = imparse(xs, this.words, false) as ImpLst|ImpTop }
+    catch (e) { throw ImpError.at(e, ImpLoc.get(xs)) }
+    return await this.evalParsed(xs)
+  }
+
+  // evaluate a list imparse has already parsed
+  evalParsed = async (xs:ImpLst|ImpTop): Promise<ImpVal[]> => {
+    let res = this.treeWalk ? await this.walkList(xs) : await this.flatList(xs)
+    if (this.limited) await this.check(res.reduce((n, x) => n + itemCount(x), 0))
+    return res
+  }
+
+  // evaluate a parsed list the flat way, with lookahead from item to item
+  flatList = async (xs:ImpLst|ImpTop): Promise<ImpVal[]> => {
     // walk from left to right, building up values to emit
     let done = false, tb: TreeBuilder<ImpVal> = new TreeBuilder()
+    let cur: ImpVal | undefined  // source item of the current expression, for errors
     this.enter(xs)
-    while (!done) {
+    try { while (!done) {
       // Handle separators - check for comma-verb sequencing
       this.nextItem()
       while (this.item && this.item[0] === ImpT.SEP && !this.atEnd()) {
-        // NOTE: imparse() now handles comma threading for normal cases
-        // This code ONLY runs when imparse skipped transformation:
-        // - Special symbols (SET, GET, LIT): 2, + x: 10
+        // NOTE: imparse() handles comma threading; this code ONLY runs for
+        // verbs it couldn't see, as in modifyNoun
         //
         // Check if this is a comma followed by a verb (sequencing operator)
         if (this.item[2] === ',') {
@@ -785,7 +948,7 @@ export class ImpEvaluator {
                 lastVal = await (op as ImpJsf)[2].apply(this, [lastVal, arg])
               }
             } else {
-              throw `Comma-verb sequencing requires verb of arity 1 or 2, got arity ${arity}`
+              throw new ImpError('valence', `Comma-verb sequencing requires verb of arity 1 or 2, got arity ${arity}`)
             }
             // Emit the modified value
             tb.emit(lastVal)
@@ -797,6 +960,7 @@ export class ImpEvaluator {
         // Regular separator, just skip it
         this.nextItem()
       }
+      cur = this.here[this.pos - 1]
       if (this.atEnd()) done = true
       let x = this.item!
       switch (this.wc) {
@@ -896,10 +1060,10 @@ export class ImpEvaluator {
           tb.emit(x)
           break
         case ImpP.G: // get-word (return value without evaluation)
-          if (!ImpQ.isSym(x)) throw "get-word must be a symbol"
+          if (!ImpQ.isSym(x)) throw new ImpError('type', "get-word must be a symbol")
           let varName = x[2].description!
           let value = this.words[varName]
-          if (!value) throw "undefined word: " + varName
+          if (!value) throw new ImpError('value', "undefined word: " + varName)
           tb.emit(value)
           break
         case ImpP.S: // set-word (assignment)
@@ -907,20 +1071,103 @@ export class ImpEvaluator {
           break
         case ImpP.E:
           break
-        default: throw "evalList: invalid word class: " + this.wc
-      }}
-    this.leave()
+        default: throw new ImpError('type', "evalList: invalid word class: " + this.wc)
+      }}}
+    catch (e) { throw ImpError.at(e, ImpLoc.get(cur ?? this.here[this.pos - 1] ?? xs)) }
+    finally { this.leave() }
     return tb.root as ImpVal[]}
 
+  // evaluate a parsed list by walking its tree: each item is a whole
+  // expression, and M-expressions evaluate through project.  What's left is
+  // juxtaposition, as in the flat evaluator: a verb word takes the items
+  // after it (calling a nullary verb such as rln), and a function value
+  // followed by nouns (get[`f] 3) is applied to them
+  walkList = async (xs:ImpLst|ImpTop): Promise<ImpVal[]> => {
+    let items = xs[2], out: ImpVal[] = [], i = 0
+    // the rest of the current statement, up to the next separator
+    let more = () => i < items.length && items[i][0] !== ImpT.SEP
+    while (i < items.length) {
+      let x = items[i++]
+      if (x[0] === ImpT.SEP) continue
+      try {
+        let v = await this.walk(x)
+        if (v[0] === ImpT.JSF || v[0] === ImpT.IFN) {
+          let word = ImpQ.isSym(x) && x[1].kind === SymT.RAW
+          if (word || more()) {
+            let args: ImpVal[] = []
+            while (args.length < v[1].arity && more()) args.push(await this.walk(items[i++]))
+            v = v[0] === ImpT.IFN ? await this.applyIfn(v, args)
+              : word && args.length < v[1].arity ? this.partial(v, args)
+              : await v[2].apply(this, args)
+          }
+        }
+        out.push(v)
+      } catch (e) { throw ImpError.at(e, ImpLoc.get(x) ?? ImpLoc.get(xs)) }
+    }
+    return out }
+
+  // evaluate one item of a parsed list: a word evaluates the value it's
+  // bound to (so a word holding loaded code runs it), and everything else
+  // evaluates as usual
+  walk = async (x: ImpVal): Promise<ImpVal> => {
+    if (!ImpQ.isSym(x)) return await this.eval(x)
+    let name = x[2].description!
+    switch (x[1].kind) {
+      case SymT.RAW: {
+        let w = this.lookup(name)
+        if (!w) throw new ImpError('value', "undefined word: " + name, x, ImpLoc.get(x))
+        return await this.eval(w) }
+      case SymT.PATH: {
+        let [head, ...keys] = name.split('/')
+        let w = this.words[head]
+        return w ? this.followPath(w, keys, x) : x }
+      case SymT.MSG: case SymT.KW: case SymT.MSG2: case SymT.KW2:
+        throw new ImpError('type', "evalList: invalid word class: " + ImpP.M)
+      default: return x
+    }
+  }
+
+  // a JSF with some of its arguments given, taking the rest later
+  partial = (f: ImpJsf, args: ImpVal[]): ImpJsf =>
+    [ImpT.JSF, {
+      arity: f[1].arity - args.length,
+      sourceIfn: f,
+      capturedArgs: args,
+      sourceName: f[1].sourceName
+    }, async (...rest: ImpVal[]) => await f[2].apply(this, [...args, ...rest])]
+
   // evaluate a list but return last expression
   lastEval = async (xs:ImpLst|ImpTop): Promise<ImpVal> => {
     let res = await this.evalList(xs)
     return res.length ? res.pop()! : NIL }
 
+  // lastEval for a list in tail position (a function body, or a branch of ite
+  // or cond in one): when its last statement is a call, f[...] or (...), the
+  // call is made in tail position too, so a call to an implish function is
+  // left in tailCall for applyIfn to make once this body is done
+  lastEvalTail = async (xs:ImpLst|ImpTop): Promise<ImpVal> => {
+    try { xs = imparse(xs, this.words, false) as ImpLst|ImpTop }
+    catch (e) { throw ImpError.at(e, ImpLoc.get(xs)) }
+    let items = xs[2], k = items.length - 1
+    while (k >= 0 && items[k][0] === ImpT.SEP) k--
+    let x = items[k], before = items[k - 1]
+    let open = x && ImpQ.isLst(x) ? x[1].open : ''
+    let m = open.match(/^([^'`:].*)\[$/)
+    // only a whole statement: not one threaded in with a comma
+    if ((!m && open !== '(') || (before && (before[0] !== ImpT.SEP || before[2] === ','))) {
+      let res = await this.evalParsed(xs)
+      return res.length ? res.pop()! : NIL }
+    if (k > 0) await this.evalParsed(xs[0] === ImpT.TOP ? ImpC.top(items.slice(0, k)) : imp.lst(xs[1], items.slice(0, k)))
+    try { return m ? await this.project(m[1], x[2] as ImpVal[], true) : await this.lastEvalTail(x as ImpLst) }
+    catch (e) { throw ImpError.at(e, ImpLoc.get(x)) }
+    finally { this.tailForm = false }
+  }
+
   // project a function
-  project = async (sym:string, xs: ImpVal[]): Promise<ImpVal> => {
-    let f: ImpVal | undefined = this.words[sym]
-    if (!f) throw "[project]: undefined word: " + sym
+  // (@[f; args] applies the function f evaluates to, such as a literal {...})
+  project = async (sym:string, xs: ImpVal[], tail = false): Promise<ImpVal> => {
+    let f: ImpVal | undefined = sym === '@' ? NIL : this.lookup(sym)
+    if (!f) throw new ImpError('value', "[project]: undefined word: " + sym)
 
     // Check if f is a dictionary - if so, handle dictionary indexing
     if (f[0] === ImpT.DCT) {
@@ -947,7 +1194,7 @@ export class ImpEvaluator {
             results.push(value !== undefined ? value : NIL)
           }
         } else {
-          throw "dictionary keys must be symbols"
+          throw new ImpError('type', "dictionary keys must be symbols")
         }
       }
 
@@ -963,10 +1210,16 @@ export class ImpEvaluator {
       else imp.push(arg,x)}
     args.push(arg)
 
-    // Special forms (ite, while, cond) need lazy evaluation - pass unevaluated args
-    let lazyEvalForms = ['ite', 'while', 'cond']
+    // Special forms (ite, while, cond, catch, try, finally, and the table queries)
+    // need lazy evaluation - pass unevaluated args.  They are known by the
+    // primitive itself rather than the name it is called by, so a word of the
+    // user's own with one of these names evaluates as usual, and an alias of
+    // one (u: update) stays lazy
+    let lazyEvalForms = ['ite', 'while', 'cond', 'catch', 'try', 'trap', 'finally', 'limit',
+                         'select', 'exec', 'update', 'delete']
+    let lazy = f[0] === ImpT.JSF && !f[1].capturedArgs?.length && lazyEvalForms.includes(f[1].sourceName ?? '')
     let evaluatedArgs = []
-    if (lazyEvalForms.includes(sym)) {
+    if (lazy) {
       // Pass arguments as-is (unevaluated LST values)
       evaluatedArgs = args
     } else {
@@ -975,11 +1228,29 @@ export class ImpEvaluator {
         evaluatedArgs.push(await this.lastEval(a))
       }
     }
+    if (sym === '@') {
+      f = evaluatedArgs.shift()!
+      if (f[0] !== ImpT.JSF && f[0] !== ImpT.IFN) throw new ImpError('type', "[project] @: not a function", f)
+    }
+
+    // In tail position (see lastEvalTail), a full call to an implish function
+    // is left for applyIfn to make
+    let applyIfn = async (fn: ImpIfn, args: ImpVal[]): Promise<ImpVal> => {
+      if (!tail || args.length !== fn[1].arity) return await this.applyIfn(fn, args)
+      this.tailCall = {fn, args}
+      return NIL }
+
+    // Projections of an IFN re-apply the source with all args so far,
+    // keeping one flat {[a; b; c] ...}[1; 2] projection instead of nesting them
+    if (f[0] === ImpT.JSF && f[1].capturedArgs && f[1].sourceIfn?.[0] === ImpT.IFN) {
+      return await applyIfn(f[1].sourceIfn as ImpIfn, [...f[1].capturedArgs, ...evaluatedArgs])
+    }
 
     // Check if it's a user-defined function (IFN) or JavaScript function (JSF)
     if (f[0] === ImpT.IFN) {
-      return await this.applyIfn(f as ImpIfn, evaluatedArgs)
+      return await applyIfn(f as ImpIfn, evaluatedArgs)
     } else if (f[0] === ImpT.JSF) {
+      this.tailForm = tail && (sym === 'ite' || sym === 'cond') && f[1].sourceName === sym
       // Check arity for JSF functions
       const expectedArity = (f as ImpJsf)[1].arity
       // Variadic functions have arity -1 and accept any number of arguments
@@ -999,11 +1270,11 @@ export class ImpEvaluator {
           return await originalFn[2].apply(this, [...capturedArgs, ...remainingArgs])
         }]
       } else if (evaluatedArgs.length > expectedArity) {
-        throw `[project] ${sym}: valence error: expected ${expectedArity} args, got ${evaluatedArgs.length}`
+        throw new ImpError('valence', `[project] ${sym}: valence error: expected ${expectedArity} args, got ${evaluatedArgs.length}`)
       }
       return await (f as ImpJsf)[2].apply(this, evaluatedArgs)
     } else {
-      throw "[project]: not a function: " + sym
+      throw new ImpError('type', "[project]: not a function: " + sym, f)
     }
   }
 
@@ -1015,15 +1286,32 @@ export class ImpEvaluator {
       case ImpT.NIL: return x
       case ImpT.INT: return x
       case ImpT.NUM: return x
+      case ImpT.BIG: return x
+      case ImpT.CHR: return x
+      case ImpT.BOOL: return x
+      case ImpT.DATE: return x
+      case ImpT.TIME: return x
+      case ImpT.TIMESTAMP: return x
+      case ImpT.TIMESPAN: return x
       case ImpT.STR: return x
       case ImpT.MLS: return x
       case ImpT.SYM: return x
       case ImpT.INTs: return x
       case ImpT.NUMs: return x
+      case ImpT.BIGs: return x
       case ImpT.SYMs: return x
+      case ImpT.CHRs: return x
+      case ImpT.BOOLs: return x
+      case ImpT.BYTEs: return x
+      case ImpT.DATEs: return x
+      case ImpT.TIMEs: return x
+      case ImpT.TIMESTAMPs: return x
+      case ImpT.TIMESPANs: return x
       case ImpT.JSF: return x
       case ImpT.IFN: return x
       case ImpT.DCT: return x
+      case ImpT.ERR: return x
+      case ImpT.TAB: return x
       case ImpT.LST:
         let [_, a, v] = x
         // Check if list is quoted (starts with ' or `)
@@ -1040,16 +1328,16 @@ export class ImpEvaluator {
             // Get key (must be backtick symbol)
             const keyItem = v[i]
             if (!ImpQ.isSym(keyItem)) {
-              throw "dictionary keys must be backtick symbols"
+              throw new ImpError('type', "dictionary keys must be backtick symbols")
             }
             if (keyItem[1].kind !== SymT.BQT) {
-              throw "dictionary keys must be backtick symbols (e.g., `a)"
+              throw new ImpError('type', "dictionary keys must be backtick symbols (e.g., `a)")
             }
             const actualKeyName = keyItem[2].description || ''
             i++
 
             // Collect the value expression (everything until the next separator or end)
-            if (i >= v.length) throw "dictionary key without value"
+            if (i >= v.length) throw new ImpError('length', "dictionary key without value")
             const valueExprs: ImpVal[] = []
             while (i < v.length && v[i][0] !== ImpT.SEP) {
               valueExprs.push(v[i])
@@ -1065,8 +1353,12 @@ export class ImpEvaluator {
         }
         // Handle curly braces as function definitions
         if (opener === '{') {
-          let arity = scanArity(v)
-          return ImpC.ifn(arity, v)
+          // functions keep their body as written, and parse it as they run
+          let body = sourceOf(x)
+          let sig = scanSignature(body)
+          if (sig) return ImpC.ifn(sig.params.length, sig.body, this.words, sig.params)
+          let arity = scanArity(body)
+          return ImpC.ifn(arity, body, this.words)
         }
         if (opener.startsWith("`")) {
           // Backtick is quasiquotation - evaluate unquoted items
@@ -1079,7 +1371,9 @@ export class ImpEvaluator {
         }
         let m = opener.match(/^(.+)([[({])$/)
         if (m) { let sym = m[1]; switch (m[2]) {
-          case '[': return await this.project(sym, v)
+          case '[':
+            try { return await this.project(sym, v) }
+            catch (e) { throw ImpError.at(e, ImpLoc.get(x)) }
           // case '(': TODO
           // case '{': TODO
           default: return imp.lst(a, await this.evalList(x))}}
@@ -1090,7 +1384,8 @@ export class ImpEvaluator {
           }
           return imp.lst(a, await this.evalList(x))
         }
-      default: throw "invalid imp value:" + JSON.stringify(x) }}}
+      default: throw new ImpError('type', "invalid imp value:" + JSON.stringify(x)) }}}
 
-export let impEval = async (x: ImpTop | ImpErr): Promise<ImpVal> =>
-  ImpQ.isTop(x) ? await new ImpEvaluator(x[2]).eval(x) : x
+export let impEval = async (x: ImpTop | ImpErr, treeWalk = false, limits: ImpLimits = {},
+                            used?: ImpUsage): Promise<ImpVal> =>
+  ImpQ.isTop(x) ? await new ImpEvaluator(x[2], treeWalk, limits, used).eval(x) : x
@@ -102,8 +102,8 @@ export function highlightCode(code: string): string {
       continue
     }
 
-    // Handle numbers: 123 or 123.456
-    const numberMatch = rest.match(/^\d+(?:\.\d+)?/)
+    // Handle numbers: 123 or 123.456, booleans 0b101 and bytes 0x0f
+    const numberMatch = rest.match(/^(0[nNw]\b|0b[01]*|0x[0-9a-fA-F]*|\d+(?:\.\d+)?)/)
     if (numberMatch) {
       result += colors.number + numberMatch[0] + colors.reset
       i += numberMatch[0].length
@@ -0,0 +1,104 @@
+/** JSON to and from implish values
+ *
+ *   JSON            implish
+ *   ----            -------
+ *   object          DCT (tables encode as an array of row objects)
+ *   array           INTs if every item reads as an integer (booleans
+ *                   included), NUMs if every item is a number, SYMs if every
+ *                   item is a string, else LST ([] is an empty LST; BYTEs
+ *                   encode as an array of numbers)
+ *   string          STR (symbols encode as their name; MLS, CHR and CHRs as
+ *                   a string)
+ *   number          INT if integral, else NUM (BIG encodes as a number, or
+ *                   as a string of digits when a double can't hold it;
+ *                   -2147483648, INT's null, reads as a BIG, and a number
+ *                   beyond a double's range is a ?domain error)
+ *   true / false    1 / 0, as INT (BOOL encodes as true / false)
+ *   (none)          DATE, TIME and TIMESTAMP encode as ISO 8601 strings, and
+ *                   TIMESPAN as milliseconds; they read back as strings and
+ *                   numbers
+ *   null            NIL (null INTs and NaN encode as null; the infinities
+ *                   0w and -0w are a ?domain error)
+ *
+ * Everything `json` produces encodes back to the same JSON, except that
+ * true and false come back as 1 and 0.  Functions, errors and separators have
+ * no encoding.
+ */
+import * as imp from './imp-core.mjs'
+import {ImpT, ImpVal, ImpC, ImpError, NULL_INT, isNullNum} from './imp-core.mjs'
+import {tabRows} from './imp-table.mjs'
+import {timeUnit, timeAtom, isoTime} from './imp-time.mjs'
+
+// numbers that read as an INT; -2147483648 would be the null 0N, so it reads
+// as a BIG instead
+const isInt = (n: any) => Number.isInteger(n) && n !== NULL_INT
+
+function fromJs(x: any): ImpVal {
+  if (x === null) return imp.NIL
+  switch (typeof x) {
+    case 'boolean': return ImpC.int(x ? 1 : 0)
+    case 'number':
+      // JSON.parse reads 1e400 as Infinity, which would read as 0w
+      if (!Number.isFinite(x)) throw new ImpError('domain', 'json: number out of range')
+      return isInt(x) ? ImpC.int(x) : x === NULL_INT ? ImpC.big(BigInt(x)) : ImpC.num(x)
+    case 'string': return ImpC.str(x)
+  }
+  if (Array.isArray(x)) {
+    let items = x.map(fromJs)
+    let all = (...ts: ImpT[]) => items.length > 0 && items.every(v => ts.includes(v[0]))
+    if (all(ImpT.INT)) return ImpC.ints(items.map(v => v[2] as number))
+    if (all(ImpT.INT, ImpT.BIG)) return ImpC.bigs(items.map(v => BigInt(v[2] as number | bigint)))
+    if (all(ImpT.INT, ImpT.NUM)) return ImpC.nums(items.map(v => v[2] as number))
+    if (all(ImpT.STR)) return ImpC.syms(x.map(s => Symbol(s)))
+    return imp.lst(undefined, items)
+  }
+  return imp.dct(new Map(Object.entries(x).map(([k, v]) => [k, fromJs(v)])))
+}
+
+export function fromJson(text: string): ImpVal {
+  let js: any
+  try { js = JSON.parse(text) }
+  catch (e: any) { throw new ImpError('parse', `json: ${e.message}`) }
+  return fromJs(js)
+}
+
+// nulls encode as null; JSON has no infinities
+const jsNum = (n: number) => {
+  if (isNullNum(n)) return null
+  if (!Number.isFinite(n)) throw new ImpError('domain', `tojson: ${n > 0 ? '0w' : '-0w'} can't be encoded as JSON`, ImpC.num(n))
+  return n }
+const bigNum = (n: bigint) => Number.isSafeInteger(Number(n)) ? Number(n) : String(n)
+
+function toJs(x: ImpVal): any {
+  switch (x[0]) {
+    case ImpT.NIL: return null
+    case ImpT.INT: case ImpT.NUM: return jsNum(x[2])
+    case ImpT.INTs: case ImpT.NUMs: return (x[2] as number[]).map(jsNum)
+    case ImpT.BIG: return bigNum(x[2])
+    case ImpT.BIGs: return x[2].map(bigNum)
+    case ImpT.BOOL: return x[2] === 1
+    case ImpT.BOOLs: return x[2].map(b => b === 1)
+    case ImpT.BYTEs: return x[2]
+    case ImpT.CHR: return String.fromCodePoint(x[2])
+    case ImpT.CHRs: return String.fromCodePoint(...x[2])
+    case ImpT.STR: case ImpT.MLS: return x[2]
+    case ImpT.SYM: return x[2].description ?? ''
+    case ImpT.SYMs: return (x[2] as symbol[]).map(s => s.description ?? '')
+    case ImpT.LST: case ImpT.TOP:
+      return (x[2] as ImpVal[]).filter(v => v[0] !== ImpT.SEP).map(toJs)
+    case ImpT.DCT: return Object.fromEntries([...x[2]].map(([k, v]) => [k, toJs(v)]))
+    case ImpT.TAB: return toJs(tabRows(x))
+    case ImpT.JSF: case ImpT.IFN:
+      throw new ImpError('type', "tojson: functions can't be encoded as JSON", x)
+    case ImpT.DATE: case ImpT.TIME: case ImpT.TIMESTAMP: case ImpT.TIMESPAN: return isoTime(x[0], x[2])
+    case ImpT.DATEs: case ImpT.TIMEs: case ImpT.TIMESTAMPs: case ImpT.TIMESPANs: {
+      let t = timeAtom(timeUnit(x[0])!)
+      return x[2].map(n => isoTime(t, n)) }
+    default:
+      throw new ImpError('type', `tojson: ${x[0]} values can't be encoded as JSON`, x)
+  }
+}
+
+export function toJson(x: ImpVal): string {
+  return JSON.stringify(toJs(x))
+}
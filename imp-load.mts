@@ -1,15 +1,19 @@
 /** Implish loader ("code-as-data" parser)
  * Converts strings to implish token-trees.
  */
-import {type ImpVal, ImpT, ok, SymTable, TreeBuilder, NIL, ImpStr, ImpC, ImpErr, ImpTop, SymT, NULL_INT} from './imp-core.mjs'
+import {type ImpVal, ImpT, ok, SymTable, TreeBuilder, NIL, ImpStr, ImpC, ImpErr, ImpTop, SymT, NULL_INT,
+  ImpError, ImpLoc, ImpTrivia, type SrcFile, type SrcLoc} from './imp-core.mjs'
 import * as imp from './imp-core.mjs'
+import {readTime} from './imp-time.mjs'
 
 let closer: Record<string, string> = { '[': ']', '(': ')', '{': '}', '.:' : ':.' }
 type TokenRule = (token:string) => void
 
 // Token types for the lexer
 export const TokT = {
-  WS: 'ws', SEP: 'sep', NUM: 'num', INT: 'int', STR: 'str',
+  WS: 'ws', SEP: 'sep', NUM: 'num', INT: 'int', BIG: 'big', STR: 'str', MLS: 'mls',
+  BITS: 'bits', BYTES: 'bytes', CHR: 'chr',
+  DATE: 'date', TIME: 'time', STAMP: 'timestamp', SPAN: 'timespan',
   NODE: 'node', DONE: 'done',
   URL: 'url', KW: 'kw', KW2: 'kw2', SET: 'set',
   MSG2: 'msg2', TYP: 'typ', ISH: 'ish', FILE: 'file',
@@ -18,16 +22,31 @@ export const TokT = {
 } as const
 
 export type TrimSpec = [number, number] | null
+export type LexRule = [string, RegExp, TrimSpec]
+export type TokenHandler = (tok: string, trim: TrimSpec, loader: ImpLoader) => void
+
+// K's float null and infinities, which parseFloat doesn't know
+const floatWords: Record<string, number> = {'0n': NaN, '0w': Infinity, '-0w': -Infinity}
 
 // Lexer table: [tokenType, regex, trimSpec]
 // trimSpec is [charsFromStart, charsFromEnd] to strip when creating symbol
-export const lexerTable: Array<[string, RegExp, TrimSpec]> = [
+export const lexerTable: LexRule[] = [
   [TokT.WS,   /^((?!\n)\s)+/s,                        null],
+  [TokT.MLS,  /^```[^`\n]*(?=\n|$)/,                 [3, 0]], // opening fence, with optional info-string
+  [TokT.BITS, /^0b[01]*\b/,                          [2, 0]], // booleans: 0b1 is one, 0b1011 a vector
+  [TokT.BYTES,/^0x[0-9a-fA-F]*\b/,                   [2, 0]], // bytes: 0x0f10 (two hex digits each)
+  [TokT.STAMP,/^(\d{4}\.\d\d\.\d\dD(\d\d:\d\d:\d\d(\.\d{1,3})?)?|0Np)(?![\w.:])/, null], // 2026.10.19D12:30:00.000
+  [TokT.DATE, /^(\d{4}\.\d\d\.\d\d|0Nd)(?![\w.:])/, null], // 2026.10.19
+  [TokT.SPAN, /^(-?\d+D(\d\d:\d\d:\d\d(\.\d{1,3})?)?|0Nn)(?![\w.:])/, null], // 0D01:30:00.000
+  [TokT.TIME, /^(-?\d\d:\d\d:\d\d(\.\d{1,3})?|0Nt)(?![\w.:])/, null], // 12:30:00.000
   [TokT.NUM,  /^-?\d+\.\d+([eE][+-]?\d+)?/,          null], // decimal with optional scientific notation
   [TokT.NUM,  /^-?\d+[eE][+-]?\d+/,                  null], // integer with scientific notation
+  [TokT.NUM,  /^(0n|-?0w)\b/,                        null], // float null and infinities (before BIG: 0n is not 0)
+  [TokT.BIG,  /^-?\d+n\b/,                           [0, 1]], // big integer: 123n (strip n)
   [TokT.INT,  /^0N\b/,                                null], // null integer (must come before general INT)
   [TokT.INT,  /^-?\d+/,                               null],
-  [TokT.STR,  /^"(\\.|[^"])*"/,                       [1, 1]],
+  [TokT.STR,  /^"(\\.|[^"\\\n])*"?/,                [1, 1]], // no closing quote is an error
+  [TokT.CHR,  /^#"(\\.|[^"\\\n])*"?/,               [2, 1]], // characters: #"a" is one, #"abc" a vector
   [TokT.NODE, /^(((?![[({])\S)*[[({]|\.:)/,          null],
   [TokT.DONE, /^(]|:\.|[)}])/,                       null],
   // Symbol types (order matters - more specific before less specific)
@@ -53,54 +72,202 @@ export const lexerTable: Array<[string, RegExp, TrimSpec]> = [
   [TokT.RAW,  /^[^\s\[\](){}`;]+/,                    [0, 0]], // catchall (keep last, exclude backtick)
 ]
 
+// the table's patterns as sticky regexes, which match at a cursor
+// (lastIndex) instead of at the start of a freshly sliced string
+const stickyTables = new WeakMap<LexRule[], LexRule[]>()
+function sticky(table: LexRule[]): LexRule[] {
+  let rules = stickyTables.get(table)
+  if (!rules) {
+    rules = table.map(([tt, rx, tr]) =>
+      [tt, new RegExp(rx.source.replace(/^\^/, ''), rx.flags.replace('y', '') + 'y'), tr] as LexRule)
+    stickyTables.set(table, rules) }
+  return rules
+}
+
 export class ImpLoader {
   tree: TreeBuilder<any> = new TreeBuilder()
   symtbl = new SymTable() // global table for symbols
-  buffer: string[] = []           // input buffer (list of strings)
-  expect: Array<{open: string, close: string}> = []           // expected closing tokens
+  text = ''; pos = 0              // input buffer, and the cursor into it
+  expect: Array<{open: string, close: string, loc?: SrcLoc, notes?: string[]}> = []  // expected closing tokens
+  src: SrcFile                    // the lines not yet handed over, for error excerpts
+  line = 1; col = 1               // position of the next token
+  loc?: SrcLoc                    // location of the token being processed
+  mls?: {lang: string, text: string, loc?: SrcLoc, fence: boolean}  // open ``` string (fence: still on the opening line)
+  comment?: {depth: number, text: string}  // open .: comment, and how deeply nested
+  trivia: boolean                 // keep comments, attached to the value that follows
+  notes: string[] = []            // comments waiting for that value
+  diagnostics: ImpError[] = []    // problems found so far; the loader recovers and carries on
+  table: LexRule[]                // token patterns, tried in order
+  lexer: LexRule[]                // the same, as sticky regexes
 
-  get empty() { return this.buffer.length===0 }
+  // a dialect passes its own token table, and handlers for any new token types
+  constructor(name = '<input>', opts: {trivia?: boolean, table?: LexRule[], rules?: Record<string, TokenHandler>} = {}) {
+    this.src = {name, lines: ['']}
+    this.trivia = opts.trivia ?? false
+    this.table = opts.table ?? lexerTable
+    this.lexer = sticky(this.table)
+    Object.assign(this.rules, opts.rules) }
+
+  get empty() { return this.pos >= this.text.length }
   get waiting() { return this.expect.length>0 }
   get ready() { return this.empty && !this.waiting }
 
   clear(): void { this.tree = new TreeBuilder() }
-  emit(x: any): void { this.tree.emit(x) }
+  emit(x: any): void {
+    // separators don't take comments: they go on to the next real value
+    if (x[0] !== ImpT.SEP) ImpTrivia.add(x, 'before', this.takeNotes())
+    this.tree.emit(ImpLoc.set(x, this.loc)) }
+  takeNotes(): string[] { let ns = this.notes; this.notes = []; return ns }
 
   node(tok: string): void {
+    if (tok === '.:') {  // comments are opaque text, up to the matching :.
+      this.comment = {depth: 1, text: ''}
+      this.expect.push({open: tok, close: closer[tok], loc: this.loc})
+      return }
     this.tree.node();
-    let o = tok === ".:" ? tok : tok.slice(-1)
-    this.expect.push({open: tok, close:closer[o]});  }
+    let o = tok.slice(-1)
+    // comments before a list belong to the list, not its first item
+    this.expect.push({open: tok, close:closer[o], loc: this.loc, notes: this.takeNotes()});  }
   done(closeTok: string): void {
-    let ex = this.expect.pop()
-    if (!ex) console.error("unexpected", closeTok)
-    else if (closeTok === ex.close) {
-      this.tree.done()
-      let that = this.tree.here.pop()
-      if (closeTok !== ':.') this.tree.emit(imp.lst(ex, that))}
-    else console.error("expected", ex.close, "got", closeTok)}
+    // a closer that matches an outer opener closes the lists inside it too,
+    // as if their closers had been there; one that matches nothing is skipped
+    let at = this.expect.map(e => e.close).lastIndexOf(closeTok)
+    if (at < 0) return this.diag(`unexpected ${closeTok}`)
+    while (this.expect.length > at + 1) {
+      let ex = this.expect[this.expect.length - 1]
+      this.diag(`expected ${ex.close} to close ${ex.open} before ${closeTok}`)
+      this.close() }
+    this.close()}
+
+  // finish the innermost list
+  close(): void {
+    let ex = this.expect.pop()!
+    this.tree.done()
+    let that = this.tree.here.pop()
+    // lists are located at their opening token
+    let lst = ImpLoc.set(imp.lst({open: ex.open, close: ex.close}, that), ex.loc)
+    ImpTrivia.add(lst, 'after', this.takeNotes())
+    ImpTrivia.add(lst, 'before', ex.notes ?? [])
+    this.tree.emit(lst)}
+
+  diag(msg: string, loc = this.loc): void {
+    this.diagnostics.push(new ImpError('parse', msg, undefined, loc)) }
 
   dump(): void { console.log(this.tree.root) }
   send(s: string): ImpLoader {
-    this.buffer.push(s);
-    while (!this.empty) this.scan();
+    this.append(s)
+    this.scanTo(this.text.length)
     return this }
 
+  // take the next chunk of a stream, which may end part way through a line:
+  // only complete lines are lexed until more arrives (or finish is called).
+  // Gives back the top-level statements completed so far.
+  feed(chunk: string): ImpVal[] {
+    this.append(chunk)
+    this.scanTo(this.text.lastIndexOf('\n') + 1)
+    return this.forms()
+  }
+
+  // remove and return the top-level items up to the last newline outside any
+  // list: whole statements, ready to evaluate
+  forms(): ImpVal[] {
+    let root = this.tree.root as ImpVal[]
+    let last = root.length - 1
+    while (last >= 0 && !(root[last][0] === ImpT.SEP && root[last][2] === '\n')) last--
+    let loc = last >= 0 ? ImpLoc.get(root[last]) : undefined
+    if (loc) this.restartSource(loc.line + 1)
+    return root.splice(0, last + 1)
+  }
+
+  // keep only the source from the given line on: locations already handed
+  // out hold on to the old SrcFile (and the lines they point into), so the
+  // loader's own copy doesn't grow with the input
+  restartSource(line: number): void {
+    let {name, lines, first = 1} = this.src
+    this.src = {name, lines: lines.slice(line - first), first: line}
+  }
+
+  append(s: string): void {
+    let [first, ...more] = s.split('\n')
+    this.src.lines[this.src.lines.length - 1] += first
+    this.src.lines.push(...more)
+    // drop what has been lexed, so the buffer doesn't grow with the input
+    if (this.pos > 65536 || this.empty) { this.text = this.text.slice(this.pos); this.pos = 0 }
+    this.text += s }
+
+  scanTo(end: number): void {
+    while (this.pos < end) this.scan(end) }
+
+  // send one line of line-oriented input (the REPL) without its newline,
+  // so the next send starts a fresh source line
+  sendLine(s: string): ImpLoader {
+    this.send(s)
+    if (this.mls) { if (this.mls.fence) this.mls.fence = false; else this.mls.text += '\n' }
+    if (this.comment) this.comment.text += '\n'
+    this.src.lines.push('')
+    this.line++; this.col = 1
+    return this }
+
+  // end of input: close whatever is still open, and hand over the tree
+  // along with every problem found on the way
+  finish(): {tree: ImpTop, diagnostics: ImpError[]} {
+    this.scanTo(this.text.length)  // any partial line left by feed
+    if (this.mls) {
+      this.diag('unterminated ``` string', this.mls.loc)
+      this.loc = this.mls.loc
+      this.emit(ImpC.mls(this.mls.text, this.mls.lang || undefined))
+      this.mls = undefined; this.expect.pop() }
+    if (this.comment) {
+      this.diag('unterminated comment', this.expect.pop()!.loc)
+      this.comment = undefined }
+    while (this.waiting) {
+      this.diag(`unclosed ${this.expect[this.expect.length - 1].open}`, this.expect[this.expect.length - 1].loc)
+      this.close() }
+    let tree = ImpC.top(this.tree.root)
+    ImpTrivia.add(tree, 'after', this.takeNotes())
+    let diagnostics = this.diagnostics
+    this.clear(); this.diagnostics = []
+    this.restartSource(this.line)
+    return {tree, diagnostics}}
+
+  // the tree, or the first problem as an error value
   read(): ImpTop | ImpErr {
-    if (this.ready) {
-      let res = this.tree.root;
-      this.clear();
-      return ImpC.top(res)}
-    else {
-      // Provide detailed error about why reading failed
-      if (!this.empty) {
-        return ImpC.err(`failed to read: ${this.buffer.length} unprocessed tokens remaining`)
-      } else if (this.waiting) {
-        let unclosed = this.expect.map(e => e.open).join(', ')
-        return ImpC.err(`failed to read: unclosed delimiters: ${unclosed}`)
-      } else {
-        return ImpC.err("failed to read: unknown error")
+    let {tree, diagnostics} = this.finish()
+    return diagnostics.length ? diagnostics[0].imp : tree}
+
+  // drop everything pending (after reporting diagnostics, say) and start afresh
+  reset(): void {
+    this.text = ''; this.pos = 0; this.expect = []; this.notes = []; this.diagnostics = []
+    this.mls = this.comment = undefined
+    this.clear()}
+
+  // a date or time literal; one that names no real date or time is reported, and read as null
+  emitTime(t: ImpT, tok: string): void {
+    let n = readTime(t, tok)
+    if (Number.isNaN(n)) { this.diag(`bad ${t.toLowerCase()}: ${tok}`); n = NULL_INT }
+    this.emit([t, null, n] as ImpVal)}
+
+  // the decoded body of a quoted token; without its closing quote, it runs to the end of the line
+  quoted(tok: string, trim: TrimSpec): string {
+    if (tok.length < (trim?.[0] ?? 1) + 1 || !tok.endsWith('"')) { this.diag('unterminated string'); tok += '"' }
+    return trim ? this.unescape(tok.slice(trim[0], -trim[1]), trim[0]) : this.unescape(tok)}
+
+  // decode \n \t \r \" \\ and \u{hex} in the body of a string token, which starts `skip` chars in
+  unescape(body: string, skip = 1): string {
+    return body.replace(/\\(u\{[0-9a-fA-F]{1,6}\}|.)/g, (esc, e: string, at: number) => {
+      switch (e[0]) {
+        case 'n': return '\n'
+        case 't': return '\t'
+        case 'r': return '\r'
+        case '"': case '\\': return e
+        case 'u': if (e.length > 1) {
+          let cp = parseInt(e.slice(2, -1), 16)
+          if (cp <= 0x10ffff) return String.fromCodePoint(cp) }
       }
-    }}
+      // point at the escape itself (just past the opening quote), and keep it as written
+      this.diag(`bad escape in string: ${esc}`, this.loc && {...this.loc, col: this.loc.col + skip + at, len: esc.length})
+      return esc })
+  }
 
   // Helper: create a symbol with trimming
   mkSym(tok: string, trim: TrimSpec, kind: SymT): void {
@@ -114,12 +281,30 @@ export class ImpLoader {
   }
 
   // Rule dictionary: maps token types to handler functions
-  rules: Record<string, (tok: string, trim: TrimSpec) => void> = {
+  rules: Record<string, TokenHandler> = {
     [TokT.WS]:   () => {},  // ignore whitespace
     [TokT.SEP]:  (tok) => this.emit(ImpC.sep(tok)),
-    [TokT.NUM]:  (tok) => this.emit(ImpC.num(parseFloat(tok))),
+    [TokT.NUM]:  (tok) => this.emit(ImpC.num(tok in floatWords ? floatWords[tok] : parseFloat(tok))),
     [TokT.INT]:  (tok) => this.emit(ImpC.int(tok === '0N' ? NULL_INT : parseInt(tok))),
-    [TokT.STR]:  (tok, trim) => this.emit(ImpC.str(trim ? tok.slice(trim[0], -trim[1]) : tok)),
+    [TokT.BIG]:  (tok, trim) => this.emit(ImpC.big(BigInt(trim ? tok.slice(trim[0], -trim[1]) : tok))),
+    [TokT.STR]:  (tok, trim) => this.emit(ImpC.str(this.quoted(tok, trim))),
+    [TokT.CHR]:  (tok, trim) => {
+      let cs = [...this.quoted(tok, trim)].map(c => c.codePointAt(0)!)
+      this.emit(cs.length === 1 ? ImpC.chr(cs[0]) : ImpC.chrs(cs)) },
+    [TokT.DATE]: (tok) => this.emitTime(ImpT.DATE, tok),
+    [TokT.TIME]: (tok) => this.emitTime(ImpT.TIME, tok),
+    [TokT.STAMP]:(tok) => this.emitTime(ImpT.TIMESTAMP, tok),
+    [TokT.SPAN]: (tok) => this.emitTime(ImpT.TIMESPAN, tok),
+    [TokT.BITS]: (tok, trim) => {
+      let bits = [...(trim ? tok.slice(trim[0]) : tok)].map(Number)
+      this.emit(bits.length === 1 ? ImpC.bool(bits[0]) : ImpC.bools(bits)) },
+    [TokT.BYTES]: (tok, trim) => {
+      let hex = trim ? tok.slice(trim[0]) : tok
+      if (hex.length % 2) hex = '0' + hex
+      this.emit(ImpC.bytes(hex.match(/../g)?.map(h => parseInt(h, 16)) ?? [])) },
+    [TokT.MLS]:  (tok, trim) => {
+      this.mls = {lang: tok.slice(trim![0]).trim(), text: '', loc: this.loc, fence: true}
+      this.expect.push({open: '```', close: '```', loc: this.loc}) },
     [TokT.NODE]: (tok) => this.node(tok),
     [TokT.DONE]: (tok) => this.done(tok),
     // Symbol types
@@ -143,42 +328,106 @@ export class ImpLoader {
     [TokT.RAW]:  (tok, trim) => this.mkSym(tok, trim, SymT.RAW),
   }
 
-  scan(): void { // match and process the next token
-    if (!this.empty) {
-      let src = this.buffer.shift()
-      if (src) {
-        let m: RegExpExecArray | null = null
-        let tokType: string | null = null
-        let trim: TrimSpec = null
-
-        // Find matching token in lexer table
-        for (let [tt, rx, tr] of lexerTable) {
-          if ((m = rx.exec(src))) {
-            tokType = tt
-            trim = tr
-            break
-          }
-        }
-
-        // Process the matched token
-        if (m && tokType) {
-          let tok = m[0], rest = src.slice(tok.length)
-          let rule = this.rules[tokType]
-          if (rule) rule(tok, trim)
-          if (rest) this.buffer.unshift(rest)
-        } else {
-          console.error("unmatched input:", src)
-        }
-      }
-    }
+  scan(end = this.text.length): void { // match and process the next token
+    if (this.mls) return this.scanMls(end)
+    if (this.comment) return this.scanComment(end)
+    let text = this.text, at = this.pos
+    for (let [tokType, rx, trim] of this.lexer) {
+      rx.lastIndex = at
+      let m = rx.exec(text)
+      if (!m || !m[0]) continue
+      let tok = m[0]
+      this.loc = {src: this.src, line: this.line, col: this.col, len: tok.length}
+      this.advance(tok)
+      this.pos = at + tok.length
+      let rule = this.rules[tokType]
+      if (rule) rule(tok, trim, this)
+      return }
+    // skip a character nothing matches
+    this.loc = {src: this.src, line: this.line, col: this.col, len: 1}
+    this.diag(`unexpected character: ${text[at]}`)
+    this.advance(text[at])
+    this.pos = at + 1
+  }
+
+  // inside a ``` string, everything up to the closing fence is text,
+  // however many sends it takes to arrive
+  scanMls(end: number): void {
+    let mls = this.mls!
+    if (mls.fence && this.text[this.pos] === '\n') { mls.fence = false; this.advance('\n'); this.pos++ }
+    let close = this.text.indexOf('```', this.pos)
+    if (close + 3 > end) close = -1
+    let text = this.text.slice(this.pos, close < 0 ? end : close)
+    mls.text += text
+    this.advance(text)
+    this.pos += text.length
+    if (close < 0) return
+    this.advance('```')
+    this.pos += 3
+    this.mls = undefined
+    this.expect.pop()
+    this.loc = mls.loc
+    this.emit(ImpC.mls(mls.text, mls.lang || undefined))
+  }
+
+  // inside a comment, only .: and :. mean anything, so a stray ] can't
+  // close a list; the text is kept in trivia mode and dropped otherwise
+  scanComment(end: number): void {
+    let c = this.comment!, rx = /\.:|:\./g, m: RegExpExecArray | null
+    rx.lastIndex = this.pos
+    while ((m = rx.exec(this.text)) && m.index + 2 <= end) {
+      c.depth += m[0] === '.:' ? 1 : -1
+      if (c.depth > 0) continue
+      let text = this.text.slice(this.pos, m.index)
+      this.advance(text + m[0])
+      this.pos = m.index + 2
+      c.text += text
+      this.comment = undefined
+      this.expect.pop()
+      if (this.trivia) this.notes.push(c.text)
+      return }
+    // no end yet: keep the nesting depth seen so far, and wait for more
+    let text = this.text.slice(this.pos, end)
+    c.text += text
+    this.advance(text)
+    this.pos = end
   }
 
-  // TODO: nested .: :. should treat everything inside as a single comment
-  // TODO: handle unterminated strings
+  // move the position past a consumed token
+  advance(tok: string): void {
+    for (let c of tok) {
+      if (c === '\n') { this.line++; this.col = 1 }
+      else this.col++ }}
+
   // TODO: strands of juxtaposed numbers should be a single token
   // TODO: floats (?)
 }
 
+// chunks of source (a file or piped stdin, read as a stream) -> each batch of
+// whole top-level statements, as soon as its last line has arrived
+export async function* loadForms(chunks: AsyncIterable<string>, name?: string): AsyncGenerator<ImpTop> {
+  let il = new ImpLoader(name)
+  for await (let chunk of chunks) {
+    let forms = il.feed(chunk)
+    if (il.diagnostics.length) throw il.diagnostics[0]
+    if (forms.length) yield ImpC.top(forms) }
+  let {tree, diagnostics} = il.finish()
+  if (diagnostics.length) throw diagnostics[0]
+  if (tree[2].length) yield tree
+}
+
+// the whole stream as one tree, like load
+export async function loadStream(chunks: AsyncIterable<string>, name?: string): Promise<ImpTop> {
+  let items: ImpVal[] = []
+  for await (let top of loadForms(chunks, name)) for (let x of top[2]) items.push(x)
+  return ImpC.top(items)
+}
+
 // impStr -> impData (parse string into tree)
-export let load: (impStr: ImpStr) => ImpVal
-  = (impStr) => new ImpLoader().send(impStr[2]).read() ?? NIL
+// with trivia, comments are kept (see ImpTrivia) for tools that rewrite source
+// the first problem is raised; ImpLoader.finish gives all of them
+export let load: (impStr: ImpStr, name?: string, opts?: {trivia?: boolean}) => ImpVal
+  = (impStr, name, opts) => {
+    let {tree, diagnostics} = new ImpLoader(name, opts).send(impStr[2]).finish()
+    if (diagnostics.length) throw diagnostics[0]
+    return tree }
@@ -53,6 +53,7 @@ interface WorkerRequest {
   operation: 'eval' | 'load' | 'list_words' | 'inspect_word' | 'reload';
   code?: string;
   word?: string;
+  timeoutMs?: number;
 }
 
 interface WorkerResponse {
@@ -87,14 +88,16 @@ async function handleRequest(request: WorkerRequest): Promise<WorkerResponse> {
 
         const loader = new ImpLoader();
         loader.send(request.code);
-        const tree = loader.read();
+        const {tree, diagnostics} = loader.finish();
 
-        if (tree[0] === ImpT.ERR) {
-          response.error = tree[2] as string;
+        // report every problem in the code at once
+        if (diagnostics.length) {
+          response.error = diagnostics.map(String).join('\n');
           break;
         }
 
-        const result = await impEval(tree);
+        // past timeoutMs, the evaluation stops with a ?limit error
+        const result = await impEval(tree, false, {ms: request.timeoutMs});
         const capturedOutput = outputCapture.getOutput();
 
         // If there was echo output, include it in the result
@@ -124,10 +127,11 @@ async function handleRequest(request: WorkerRequest): Promise<WorkerResponse> {
 
         const loader = new ImpLoader();
         loader.send(request.code);
-        const tree = loader.read();
+        const {tree, diagnostics} = loader.finish();
 
-        if (tree[0] === ImpT.ERR) {
-          response.error = tree[2] as string;
+        // report every problem in the code at once
+        if (diagnostics.length) {
+          response.error = diagnostics.map(String).join('\n');
           break;
         }
 
@@ -166,7 +170,8 @@ async function handleRequest(request: WorkerRequest): Promise<WorkerResponse> {
 
     return response;
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    // implish errors carry a source location, which their toString() includes
+    const errorMessage = error instanceof Error && !('loc' in error) ? error.message : String(error);
     return { id: request.id, success: false, error: errorMessage };
   }
 }
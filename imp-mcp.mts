@@ -40,6 +40,7 @@ interface WorkerRequest {
   operation: 'eval' | 'load' | 'list_words' | 'inspect_word' | 'reload';
   code?: string;
   word?: string;
+  timeoutMs?: number;  // the longest an evaluation may run before it stops with ?limit
 }
 
 interface WorkerResponse {
@@ -142,15 +143,18 @@ async function sendToWorker(request: WorkerRequest, timeoutMs: number = 5000): P
 
   return new Promise((resolve, reject) => {
     const requestId = requestIdCounter++;
-    const requestWithId = { ...request, id: requestId };
+    const requestWithId = { ...request, id: requestId, timeoutMs };
 
-    // Set timeout
+    // The worker stops an evaluation itself once timeoutMs is up.  If it still
+    // hasn't answered a second later, it's stuck inside a single primitive, so
+    // restart it rather than leave it spinning
     const timeout = setTimeout(() => {
       if (pendingRequests.has(requestId)) {
         pendingRequests.delete(requestId);
-        reject(new Error(`Request timed out after ${timeoutMs}ms (possible infinite loop)`));
+        workerProcess?.kill();
+        reject(new Error(`Request timed out after ${timeoutMs}ms (worker restarted)`));
       }
-    }, timeoutMs);
+    }, timeoutMs + 1000);
 
     // Store resolver
     pendingRequests.set(requestId, {
@@ -1,9 +1,28 @@
-import { ImpT, ImpVal, SymT, ImpQ, NULL_INT } from './imp-core.mjs'
+import { ImpT, ImpVal, SymT, ImpQ, ImpTab, NULL_INT } from './imp-core.mjs'
+import { colItems } from './imp-table.mjs'
+import { timeUnit, timeAtom, showTime } from './imp-time.mjs'
 
 function q(x:string):string {
   if (x.match(/^[a-zA-Z0-9_]*$/)) return x
   else return JSON.stringify(x)}
 
+// a string literal the loader reads back as the same string
+const escapes: Record<string, string> = {'\\': '\\\\', '"': '\\"', '\n': '\\n', '\t': '\\t', '\r': '\\r'}
+export function quoteStr(s: string): string {
+  return '"' + s.replace(/[\\"\x00-\x1f\x7f]/g, c =>
+    escapes[c] ?? `\\u{${c.codePointAt(0)!.toString(16)}}`) + '"'}
+
+// K's spellings for the nulls and infinities: 0N (int), 0n (float), 0w and -0w
+function showNum(n: number): string {
+  if (n === NULL_INT) return '0N'
+  if (Number.isNaN(n)) return '0n'
+  if (!Number.isFinite(n)) return n < 0 ? '-0w' : '0w'
+  return n.toString()
+}
+
+// 0n is the float null, so a big zero shows as 00n
+const showBig = (n: bigint) => n === 0n ? '00n' : n + 'n'
+
 export class ImpWriter {
 
   // Get the "kind" of a noun for comma separation purposes
@@ -12,8 +31,10 @@ export class ImpWriter {
     switch (x[0]) {
       case ImpT.INT:
       case ImpT.NUM:
+      case ImpT.BIG:
       case ImpT.INTs:
       case ImpT.NUMs:
+      case ImpT.BIGs:
         return 'number'
       case ImpT.SYM:
         // Only backtick symbols need commas
@@ -22,10 +43,23 @@ export class ImpWriter {
       case ImpT.SYMs:
         return 'bqt-symbol'  // Backtick symbol vectors
       default:
-        return null
+        // dates strand with dates, times with times, ...
+        return timeUnit(x[0]) ?? null
     }
   }
 
+  // render a table as aligned columns under a header row, as in q
+  private showTab(t: ImpTab): string {
+    let names = [...t[2].keys()]
+    let cells = [...t[2].values()].map(col => colItems(col).map(x =>
+      ImpQ.isSym(x) ? x[2].description ?? '' : this.show(x)))
+    let widths = names.map((name, j) => Math.max(name.length, ...cells[j].map(c => c.length)))
+    let line = (row: string[]) => row.map((c, j) => c.padEnd(widths[j])).join(' ').trimEnd()
+    let rows = cells.length ? cells[0].map((_, i) => line(cells.map(col => col[i]))) : []
+    let header = line(names)
+    return [header, '-'.repeat(header.length), ...rows].join('\n')
+  }
+
   // return a string representation
   show: (x: ImpVal) => string = (x) => {
     let showList: (xs: ImpVal[]) => string = (xs) => {
@@ -55,16 +89,25 @@ export class ImpWriter {
     }
     switch (x[0]) {
       case ImpT.TOP: return showList(x[2])
-      case ImpT.ERR: return `?${q(x[2])}`
+      case ImpT.ERR: return `error[?${x[1].kind}; ${quoteStr(x[2])}]`
       case ImpT.SEP: return x[2]
-      case ImpT.INT: return x[2] === NULL_INT ? '0N' : x[2].toString()
-      case ImpT.NUM: return x[2].toString()
-      case ImpT.STR: return JSON.stringify(x[2])
+      case ImpT.INT: case ImpT.NUM: return showNum(x[2])
+      case ImpT.BIG: return showBig(x[2])
+      case ImpT.CHR: return '#' + quoteStr(String.fromCodePoint(x[2]))
+      case ImpT.BOOL: return '0b' + x[2]
+      case ImpT.DATE: case ImpT.TIME: case ImpT.TIMESTAMP: case ImpT.TIMESPAN: return showTime(x[0], x[2])
+      case ImpT.STR: return quoteStr(x[2])
       case ImpT.NIL: return 'nil'
-      case ImpT.MLS: return '```\n' + x[2] + '```\n'
-      case ImpT.INTs: return (x[2] as number[]).map(n => n === NULL_INT ? '0N' : n.toString()).join(' ')
-      case ImpT.NUMs: return (x[2] as number[]).join(' ')
+      case ImpT.MLS: return '```' + (x[1]?.lang ?? '') + '\n' + x[2] + '```'
+      case ImpT.INTs: case ImpT.NUMs: return (x[2] as number[]).map(showNum).join(' ')
+      case ImpT.BIGs: return x[2].map(showBig).join(' ')
       case ImpT.SYMs: return (x[2] as symbol[]).map(s => '`' + (s.description ?? '?')).join(' ')
+      case ImpT.CHRs: return '#' + quoteStr(String.fromCodePoint(...x[2]))
+      case ImpT.BOOLs: return '0b' + x[2].join('')
+      case ImpT.BYTEs: return '0x' + x[2].map(b => b.toString(16).padStart(2, '0')).join('')
+      case ImpT.DATEs: case ImpT.TIMEs: case ImpT.TIMESTAMPs: case ImpT.TIMESPANs: {
+        let t = timeAtom(timeUnit(x[0])!)
+        return x[2].map(n => showTime(t, n)).join(' ') }
       case ImpT.SYM: {
         let name = x[2].description ?? '?`'
         switch (x[1].kind) {
@@ -108,7 +151,12 @@ export class ImpWriter {
         }
         return ':[' + pairs.join('; ') + ']'
       }
-      case ImpT.IFN: return '{' + showList(x[2]) + '}'
+      case ImpT.TAB: return this.showTab(x)
+      case ImpT.IFN: {
+        // Explicit signatures are kept in the attributes, not the body
+        let sig = x[1].params ? '[' + x[1].params.join('; ') + '] ' : ''
+        return '{' + sig + showList(x[2]) + '}'
+      }
       case ImpT.JSF: {
         // If it's a partial application, show as {source}[args]
         if (x[1].capturedArgs) {
@@ -124,8 +172,9 @@ export class ImpWriter {
           let args = x[1].capturedArgs.map(a => this.show(a)).join('; ')
           return `${source}[${args}]`
         }
-        // Otherwise show arity in brackets
+        // Otherwise show arity in brackets (variadic: any number of arguments)
         let arity = x[1].arity
+        if (arity < 0) return '<fn[...]>'
         return arity === 1 ? '<fn[_]>' : `<fn[${Array(arity).fill('_').join('; ')}]>`
       }
       default:
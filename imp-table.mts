@@ -0,0 +1,456 @@
+/** Implish tables
+ * A table is a dictionary of equal-length columns, stored column-wise.
+ * Columns are vectors (INTs, NUMs, BIGs, SYMs, BOOLs, CHRs, BYTEs, DATEs, TIMEs,
+ * TIMESTAMPs, TIMESPANs) or general lists (e.g. of strings).
+ */
+import * as imp from './imp-core.mjs'
+import {ImpT, ImpVal, ImpC, ImpQ, ImpTab, ImpDct, ImpLst, ImpEnv, ImpError, SymT, NULL_INT} from './imp-core.mjs'
+import type {ImpEvaluator} from './imp-eval.mjs'
+import {timeUnit, timeAtom, timeVec, isTimeVec} from './imp-time.mjs'
+import {impShow} from './imp-show.mjs'
+
+export function isColumn(x: ImpVal): boolean {
+  switch (x[0]) {
+    case ImpT.INTs: case ImpT.NUMs: case ImpT.BIGs: case ImpT.SYMs:
+    case ImpT.BOOLs: case ImpT.CHRs: case ImpT.BYTEs: case ImpT.LST: return true
+    default: return isTimeVec(x[0])
+  }
+}
+
+export function colLength(col: ImpVal): number {
+  return (col[2] as any[]).length
+}
+
+// the items of a column as atoms
+export function colItems(col: ImpVal): ImpVal[] {
+  switch (col[0]) {
+    case ImpT.INTs: return (col[2] as number[]).map(n => ImpC.int(n))
+    case ImpT.NUMs: return (col[2] as number[]).map(n => ImpC.num(n))
+    case ImpT.SYMs: return (col[2] as symbol[]).map(s => ImpC.sym(s, SymT.BQT))
+    case ImpT.BIGs: return (col[2] as bigint[]).map(n => ImpC.big(n))
+    case ImpT.BOOLs: return (col[2] as number[]).map(b => ImpC.bool(b))
+    case ImpT.CHRs: return (col[2] as number[]).map(c => ImpC.chr(c))
+    case ImpT.BYTEs: return (col[2] as number[]).map(n => ImpC.int(n))
+    case ImpT.LST: return (col[2] as ImpVal[]).filter(x => x[0] !== ImpT.SEP)
+    case ImpT.DATEs: case ImpT.TIMEs: case ImpT.TIMESTAMPs: case ImpT.TIMESPANs: {
+      let t = timeAtom(timeUnit(col[0])!)
+      return (col[2] as number[]).map(n => [t, null, n] as ImpVal) }
+    default: throw new ImpError('type', "table columns must be vectors or lists", col)
+  }
+}
+
+// build the narrowest column type that holds all the items
+export function colOf(items: ImpVal[]): ImpVal {
+  if (items.length > 0) {
+    if (items.every(x => x[0] === ImpT.INT)) return ImpC.ints(items.map(x => x[2] as number))
+    if (items.every(x => x[0] === ImpT.INT || x[0] === ImpT.BIG)) return ImpC.bigs(items.map(x => BigInt(x[2] as number | bigint)))
+    if (items.every(x => x[0] === ImpT.INT || x[0] === ImpT.NUM)) return ImpC.nums(items.map(x => x[2] as number))
+    if (items.every(x => ImpQ.isSym(x))) return ImpC.syms(items.map(x => x[2] as symbol))
+    if (items.every(x => x[0] === ImpT.BOOL)) return ImpC.bools(items.map(x => x[2] as number))
+    if (items.every(x => x[0] === ImpT.CHR)) return ImpC.chrs(items.map(x => x[2] as number))
+    let unit = timeUnit(items[0][0])
+    if (unit && items.every(x => x[0] === timeAtom(unit!))) return [timeVec(unit), null, items.map(x => x[2] as number)] as ImpVal
+  }
+  return imp.lst(undefined, items)
+}
+
+// select items by index, keeping the column type; missing rows become nulls
+export function colTake(col: ImpVal, idx: number[]): ImpVal {
+  let n = colLength(col), ok = (i: number) => i >= 0 && i < n
+  switch (col[0]) {
+    case ImpT.INTs: return ImpC.ints(idx.map(i => ok(i) ? (col[2] as number[])[i] : NULL_INT))
+    case ImpT.NUMs: return ImpC.nums(idx.map(i => ok(i) ? (col[2] as number[])[i] : NaN))
+    case ImpT.SYMs: return ImpC.syms(idx.map(i => ok(i) ? (col[2] as symbol[])[i] : Symbol('')))
+    case ImpT.BOOLs: return ImpC.bools(idx.map(i => ok(i) ? (col[2] as number[])[i] : 0))
+    case ImpT.CHRs: return ImpC.chrs(idx.map(i => ok(i) ? (col[2] as number[])[i] : 32))
+    case ImpT.BYTEs: return ImpC.bytes(idx.map(i => ok(i) ? (col[2] as number[])[i] : 0))
+    case ImpT.DATEs: case ImpT.TIMEs: case ImpT.TIMESTAMPs: case ImpT.TIMESPANs:
+      return [col[0], null, idx.map(i => ok(i) ? (col[2] as number[])[i] : NULL_INT)] as ImpVal
+    default: {
+      let items = colItems(col)
+      return imp.lst(undefined, idx.map(i => ok(i) ? items[i] : imp.NIL))
+    }
+  }
+}
+
+/** flip a dictionary of equal-length columns into a table */
+export function tabFromDct(d: ImpDct): ImpTab {
+  let cols = new Map<string, ImpVal>()
+  let rows = -1
+  for (let [name, col] of d[2]) {
+    if (!isColumn(col)) throw new ImpError('type', `flip: column ${name} must be a vector or list`, col)
+    let n = colLength(col)
+    if (rows >= 0 && n !== rows) throw new ImpError('length', `flip: column ${name} has ${n} items, expected ${rows}`, col)
+    rows = n
+    cols.set(name, col)
+  }
+  return ImpC.tab(cols)
+}
+
+export function tabCount(t: ImpTab): number {
+  let first = t[2].values().next()
+  return first.done ? 0 : colLength(first.value)
+}
+
+// one row, as a dictionary
+export function tabRow(t: ImpTab, i: number): ImpDct {
+  let row = new Map<string, ImpVal>()
+  for (let [name, col] of t[2]) {
+    let cell = colTake(col, [i])
+    row.set(name, colItems(cell)[0])
+  }
+  return imp.dct(row)
+}
+
+// several rows, as a table
+export function tabTake(t: ImpTab, idx: number[]): ImpTab {
+  let cols = new Map<string, ImpVal>()
+  for (let [name, col] of t[2]) cols.set(name, colTake(col, idx))
+  return ImpC.tab(cols)
+}
+
+// every row, as a list of dictionaries
+export function tabRows(t: ImpTab): ImpLst {
+  return imp.lst(undefined, Array.from({length: tabCount(t)}, (_, i) => tabRow(t, i)))
+}
+
+// a table from a list of dictionaries; a key missing from some rows is null there
+export function tabFromRows(rows: ImpVal[]): ImpTab {
+  let names: string[] = []
+  for (let row of rows) {
+    if (!ImpQ.isDct(row)) throw new ImpError('type', "expected a list of dictionaries", row)
+    for (let k of row[2].keys()) if (!names.includes(k)) names.push(k)
+  }
+  let cols = new Map<string, ImpVal>()
+  for (let name of names) {
+    let some = (rows as ImpDct[]).find(row => row[2].has(name))!
+    cols.set(name, colOf((rows as ImpDct[]).map(row => row[2].get(name) ?? nullLike(some[2].get(name)))))
+  }
+  return ImpC.tab(cols)
+}
+
+export function tabColumn(t: ImpTab, name: string): ImpVal {
+  let col = t[2].get(name)
+  if (!col) throw new ImpError('value', `no such column: ${name}`, ImpC.sym(Symbol(name), SymT.BQT))
+  return col
+}
+
+// -- queries ---------------------------------------------------------
+// select[cols; from; where; by] and friends are special forms: each clause
+// arrives unevaluated, and cols/where/by are evaluated with the table's
+// columns bound as words, so `qty > 10` compares a whole column at once.
+
+type QueryArgs = {cols?: ImpVal, from: ImpTab, where?: ImpVal, by?: ImpVal}
+
+const isEmpty = (clause?: ImpVal): boolean =>
+  !clause || ((ImpQ.isLst(clause) || ImpQ.isTop(clause)) && clause[2].length === 0)
+
+// evaluate a clause in a frame where each column name is bound to its vector
+async function inScope(ev: ImpEvaluator, t: ImpTab, clause: ImpVal): Promise<ImpVal> {
+  let frame: ImpEnv = Object.create(ev.words)
+  for (let [name, col] of t[2]) frame[name] = col
+  let saved = ev.words
+  ev.words = frame
+  try { return await ev.lastEval(clause as ImpLst) }
+  finally { ev.words = saved }
+}
+
+// names listed as `a `b in a clause (rather than an expression to evaluate)
+function clauseNames(clause: ImpVal): string[] | null {
+  let items = (clause[2] as ImpVal[]).filter(x => x[0] !== ImpT.SEP)
+  if (items.length === 1 && items[0][0] === ImpT.SYMs) return items[0][2].map(s => s.description!)
+  if (!items.length || !items.every(x => ImpQ.isSym(x) && x[1].kind === SymT.BQT)) return null
+  return items.map(x => (x[2] as symbol).description!)
+}
+
+// a bare expression column is named after its first word, as in q: the
+// first argument all the way down, so qty * px and count qty are both qty
+function clauseName(clause: ImpVal): string {
+  let first = (clause[2] as ImpVal[])[0]
+  while (first && ImpQ.isLst(first) && /^[^'`{(:[].*\[$/.test(first[1].open)) first = first[2][0]
+  return first && ImpQ.isSym(first) && first[1].kind === SymT.RAW ? first[2].description! : 'x'
+}
+
+async function rowsWhere(ev: ImpEvaluator, t: ImpTab, where?: ImpVal): Promise<number[]> {
+  let all = Array.from({length: tabCount(t)}, (_, i) => i)
+  if (isEmpty(where)) return all
+  let r = await inScope(ev, t, where!)
+  if (r[0] === ImpT.INT || r[0] === ImpT.NUM || r[0] === ImpT.BOOL) return r[2] ? all : []
+  if (r[0] === ImpT.INTs || r[0] === ImpT.NUMs || r[0] === ImpT.BOOLs) {
+    let flags = r[2] as number[]
+    if (flags.length !== all.length) throw new ImpError('length', `where: expected ${all.length} flags, got ${flags.length}`, r)
+    return all.filter(i => flags[i])
+  }
+  throw new ImpError('type', "where: condition must give a boolean vector", r)
+}
+
+// split rows into groups, as `group` would, in order of first appearance
+function groupsBy(t: ImpTab, by: ImpVal): {names: string[], groups: number[][]} {
+  let names = clauseNames(by)
+  if (!names) throw new ImpError('type', "by: expected column names like `sym", by)
+  return {names, groups: [...groupIndex(t, names).values()]}
+}
+
+// the indices of each distinct item, keyed by the item, in order of first
+// appearance (the `group` primitive; tables group and join rows with it too)
+export function groupRows(items: ImpVal[]): Map<string, number[]> {
+  let groups = new Map<string, number[]>()
+  items.forEach((item, i) => {
+    // a stable key that keeps a backtick symbol's bare name
+    let key = ImpQ.isSym(item) && item[1].kind === SymT.BQT ? item[2].description ?? '' : impShow(item)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(i)
+  })
+  return groups
+}
+
+// the rows of t keyed by the given columns
+function groupIndex(t: ImpTab, names: string[]): Map<string, number[]> {
+  let cols = names.map(name => colItems(tabColumn(t, name)))
+  // no key columns puts every row in one group
+  let keys = !names.length ? Array.from({length: tabCount(t)}, () => ImpC.int(0))
+    : names.length === 1 ? cols[0]
+    : cols[0].map((_, i) => imp.lst(undefined, cols.map(c => c[i])))
+  return groupRows(keys)
+}
+
+// the index of the last item of sorted nums at or before x, or -1 (`bin`)
+export function binSearch(nums: number[], x: number): number {
+  if (nums.length === 0 || x < nums[0]) return -1
+  let lo = 0, hi = nums.length - 1
+  while (lo < hi) {
+    // mid biased toward hi, to find the last item <= x
+    let mid = Math.floor((lo + hi + 1) / 2)
+    if (nums[mid] <= x) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+// evaluate the column clause against (part of) a table, giving named results
+async function columns(ev: ImpEvaluator, t: ImpTab, cols?: ImpVal): Promise<Map<string, ImpVal>> {
+  if (isEmpty(cols)) return new Map(t[2])
+  let names = clauseNames(cols!)
+  if (names) return new Map(names.map(name => [name, tabColumn(t, name)]))
+  let r = await inScope(ev, t, cols!)
+  let res: Map<string, ImpVal> = ImpQ.isDct(r) ? new Map(r[2]) : new Map([[clauseName(cols!), r]])
+  // a dyadic verb given one column (max qty) is a projection, not an aggregate
+  for (let [name, x] of res) if (x[0] === ImpT.JSF || x[0] === ImpT.IFN)
+    throw new ImpError('type', `column ${name} gives a function; to aggregate with a dyadic verb, fold it: max/ qty`, x)
+  return res
+}
+
+// a null of the same type as x, for rows an added column doesn't cover
+function nullLike(x?: ImpVal): ImpVal {
+  switch (x?.[0]) {
+    case ImpT.INT: return ImpC.int(NULL_INT)
+    case ImpT.NUM: return ImpC.num(NaN)
+    case ImpT.SYM: return ImpC.sym(Symbol(''), SymT.BQT)
+    case ImpT.BOOL: return ImpC.bool(0)
+    case ImpT.CHR: return ImpC.chr(32)
+    case ImpT.DATE: case ImpT.TIME: case ImpT.TIMESTAMP: case ImpT.TIMESPAN: return [x[0], null, NULL_INT] as ImpVal
+    default: return imp.NIL
+  }
+}
+
+// a null of the type x gives: a column's missing item, or an atom's null
+const nullOf = (x: ImpVal): ImpVal => isColumn(x) ? colItems(colTake(x, [-1]))[0] : nullLike(x)
+
+// results are whole columns or atoms (aggregates); atoms spread to fill the column
+function spread(results: Map<string, ImpVal>, n?: number): Map<string, ImpVal[]> {
+  let lengths = [...results.values()].filter(isColumn).map(colLength)
+  let rows = n ?? (lengths.length ? Math.max(...lengths) : 1)
+  let out = new Map<string, ImpVal[]>()
+  for (let [name, r] of results) {
+    if (!isColumn(r)) { out.set(name, Array(rows).fill(r)); continue }
+    if (colLength(r) !== rows) throw new ImpError('length', `column ${name} has ${colLength(r)} items, expected ${rows}`, r)
+    out.set(name, colItems(r))
+  }
+  return out
+}
+
+// an empty column of the type x gives: a column's own, or a vector of an atom's
+const emptyLike = (x: ImpVal): ImpVal => colTake(isColumn(x) ? x : colOf([x]), [])
+
+// the table of the given items; a column with no items takes its type from
+// like, the clause's result (or the source column)
+function tabOf(cols: Map<string, ImpVal[]>, like: Map<string, ImpVal>): ImpTab {
+  return ImpC.tab(new Map([...cols].map(([name, items]) =>
+    [name, !items.length && like.has(name) ? emptyLike(like.get(name)!) : colOf(items)])))
+}
+
+export async function select(ev: ImpEvaluator, q: QueryArgs): Promise<ImpTab> {
+  let t = tabTake(q.from, await rowsWhere(ev, q.from, q.where))
+  if (isEmpty(q.by)) {
+    let res = await columns(ev, t, q.cols)
+    return tabOf(spread(res), res)
+  }
+  // one row per group: the group's key columns, then its (usually aggregate) results
+  let {names, groups} = groupsBy(t, q.by!)
+  let out = new Map<string, ImpVal[]>(names.map(name => [name, []]))
+  let like = new Map(names.map(name => [name, tabColumn(t, name)]))
+  for (let rows of groups) {
+    for (let name of names) out.get(name)!.push(colItems(colTake(tabColumn(t, name), [rows[0]]))[0])
+    for (let [name, r] of await columns(ev, tabTake(t, rows), q.cols)) {
+      if (isColumn(r)) throw new ImpError('type', `by: column ${name} gives ${colLength(r)} items per group, not one; aggregate it: +/ qty, count qty`, r)
+      if (!out.has(name)) out.set(name, [])
+      out.get(name)!.push(r)
+    }
+  }
+  // with no groups, the clauses run once over no rows, for their names and types
+  if (!groups.length) for (let [name, r] of await columns(ev, t, q.cols)) {
+    if (!out.has(name)) out.set(name, [])
+    like.set(name, r)
+  }
+  return tabOf(out, like)
+}
+
+export async function exec(ev: ImpEvaluator, q: QueryArgs): Promise<ImpVal> {
+  if (isEmpty(q.by)) {
+    let t = tabTake(q.from, await rowsWhere(ev, q.from, q.where))
+    let results = await columns(ev, t, q.cols)
+    return results.size === 1 ? [...results.values()][0] : imp.dct(results)
+  }
+  // a dictionary from each group's key to its result
+  let res = await select(ev, q)
+  let names = clauseNames(q.by!)!
+  let value = [...res[2].keys()].find(name => !names.includes(name))
+  if (!value) throw new ImpError('domain', "exec: nothing to compute", q.cols)
+  let keyName = (k: ImpVal) => ImpQ.isSym(k) ? k[2].description! : String(k[2])
+  let keys = names.map(name => colItems(tabColumn(res, name)))
+  let vals = colItems(tabColumn(res, value))
+  return imp.dct(new Map(vals.map((v, i) => [keys.map(col => keyName(col[i])).join(' '), v])))
+}
+
+export async function update(ev: ImpEvaluator, q: QueryArgs): Promise<ImpTab> {
+  let t = q.from, rows = await rowsWhere(ev, t, q.where)
+  let parts = isEmpty(q.by) ? [rows] : groupsBy(tabTake(t, rows), q.by!).groups.map(g => g.map(i => rows[i]))
+  // with no groups, the clauses still run once over no rows, for their types
+  if (!parts.length) parts = [[]]
+  let out = new Map([...t[2]].map(([name, col]) => [name, colItems(col)]))
+  let like = new Map(t[2])
+  for (let part of parts) {
+    let res = await columns(ev, tabTake(t, part), q.cols)
+    for (let [name, items] of spread(res, part.length)) {
+      // new columns start out null, of the type the clause gives, except in
+      // the rows being updated
+      if (!out.has(name)) out.set(name, Array(tabCount(t)).fill(nullOf(res.get(name)!)))
+      if (!like.has(name)) like.set(name, res.get(name)!)
+      part.forEach((row, k) => out.get(name)![row] = items[k])
+    }
+  }
+  return tabOf(out, like)
+}
+
+export async function del(ev: ImpEvaluator, q: QueryArgs): Promise<ImpTab> {
+  // delete[`a `b; t] drops columns; delete[; t; where] drops rows
+  if (!isEmpty(q.cols)) {
+    let names = clauseNames(q.cols!)
+    if (!names) throw new ImpError('type', "delete: expected column names like `sym", q.cols)
+    names.forEach(name => tabColumn(q.from, name))
+    return ImpC.tab(new Map([...q.from[2]].filter(([name]) => !names!.includes(name))))
+  }
+  let gone = new Set(await rowsWhere(ev, q.from, q.where))
+  return tabTake(q.from, Array.from({length: tabCount(q.from)}, (_, i) => i).filter(i => !gone.has(i)))
+}
+
+// -- joins -----------------------------------------------------------
+// lj[keys; t1; t2] and friends match rows of t1 to rows of t2 on the key
+// columns.  Matching works on row indices (-1 for no match) so colTake can
+// fill the gaps with nulls of each column's own type.
+
+function keyNames(name: string, keys: ImpVal): string[] {
+  if (ImpQ.isSym(keys)) return [keys[2].description!]
+  if (keys[0] === ImpT.SYMs) return (keys[2] as symbol[]).map(s => s.description!)
+  throw new ImpError('type', `${name}: expected key columns like \`sym`, keys)
+}
+
+function joinArgs(name: string, keys: ImpVal, t1: ImpVal, t2: ImpVal): [string[], ImpTab, ImpTab] {
+  for (let t of [t1, t2]) if (!ImpQ.isTab(t)) throw new ImpError('type', `${name}: expected tables to join`, t)
+  let names = keyNames(name, keys)
+  for (let k of names) { tabColumn(t1 as ImpTab, k); tabColumn(t2 as ImpTab, k) }
+  return [names, t1 as ImpTab, t2 as ImpTab]
+}
+
+// for each row of t, the first row of r with the same keys (a hash join on `group`)
+function matchRows(names: string[], t: ImpTab, r: ImpTab): number[] {
+  let index = groupIndex(r, names)
+  let idx = Array(tabCount(t)).fill(-1)
+  for (let [k, rows] of groupIndex(t, names)) {
+    let hit = index.get(k)
+    if (hit) rows.forEach(i => idx[i] = hit![0])
+  }
+  return idx
+}
+
+// for each row of t, the last row of r at or before it on the final key
+// (r sorted on it), among rows matching the other keys exactly: `bin` per group
+function asofRows(names: string[], t: ImpTab, r: ImpTab): number[] {
+  let exact = names.slice(0, -1), time = names[names.length - 1]
+  let rc = tabColumn(r, time), tc = tabColumn(t, time)
+  let numeric = (c: ImpVal) => c[0] === ImpT.INTs || c[0] === ImpT.NUMs
+  if (!(numeric(rc) && numeric(tc)) && !(isTimeVec(rc[0]) && rc[0] === tc[0]))
+    throw new ImpError('type', `aj: can't search for ${tc[0].toLowerCase()} in ${rc[0].toLowerCase()}`, tc)
+  let index = groupIndex(r, exact)
+  let idx = Array(tabCount(t)).fill(-1)
+  for (let [k, rows] of groupIndex(t, exact)) {
+    let hit = index.get(k)
+    if (!hit) continue
+    let within = colTake(rc, hit)[2] as number[], at = colTake(tc, rows)[2] as number[]
+    rows.forEach((i, j) => { let p = binSearch(within, at[j]); idx[i] = p >= 0 ? hit![p] : -1 })
+  }
+  return idx
+}
+
+// t's columns with r's non-key columns laid over the matched rows
+function joinCols(names: string[], t: ImpTab, r: ImpTab, idx: number[]): ImpTab {
+  let out = new Map(t[2])
+  for (let [name, col] of r[2]) {
+    if (names.includes(name)) continue
+    let over = colTake(col, idx), base = t[2].get(name)
+    if (!base) { out.set(name, over); continue }
+    // a column in both tables keeps t's value where r has no row
+    let items = colItems(base), news = colItems(over)
+    out.set(name, idx.length ? colOf(items.map((x, i) => idx[i] < 0 ? x : news[i])) : base)
+  }
+  return ImpC.tab(out)
+}
+
+// rows of b after the rows of a, keeping vector types where they agree
+function colCat(a: ImpVal, b: ImpVal): ImpVal {
+  if (a[0] === b[0] && a[0] !== ImpT.LST) return [a[0], a[1], [...a[2] as any[], ...b[2] as any[]]] as ImpVal
+  return colOf([...colItems(a), ...colItems(b)])
+}
+
+export async function lj(ev: ImpEvaluator, keys: ImpVal, t1: ImpVal, t2: ImpVal): Promise<ImpTab> {
+  let [names, t, r] = joinArgs('lj', keys, t1, t2)
+  return joinCols(names, t, r, matchRows(names, t, r))
+}
+
+export async function ij(ev: ImpEvaluator, keys: ImpVal, t1: ImpVal, t2: ImpVal): Promise<ImpTab> {
+  let [names, t, r] = joinArgs('ij', keys, t1, t2)
+  let idx = matchRows(names, t, r)
+  let rows = idx.flatMap((j, i) => j < 0 ? [] : [i])
+  return joinCols(names, tabTake(t, rows), r, rows.map(i => idx[i]))
+}
+
+export async function uj(ev: ImpEvaluator, keys: ImpVal, t1: ImpVal, t2: ImpVal): Promise<ImpTab> {
+  // an upsert: matching rows of t1 take t2's values, and the rows of t2 that
+  // no row took (including repeats of a key) are appended
+  let [names, t, r] = joinArgs('uj', keys, t1, t2)
+  let idx = matchRows(names, t, r)
+  let joined = joinCols(names, t, r, idx)
+  let used = new Set(idx)
+  let extra = Array.from({length: tabCount(r)}, (_, i) => i).filter(i => !used.has(i))
+  let out = new Map<string, ImpVal>()
+  for (let [name, col] of joined[2]) {
+    let more = r[2].get(name)
+    out.set(name, colCat(col, more ? colTake(more, extra) : colTake(col, extra.map(() => -1))))
+  }
+  return ImpC.tab(out)
+}
+
+export async function aj(ev: ImpEvaluator, keys: ImpVal, t1: ImpVal, t2: ImpVal): Promise<ImpTab> {
+  let [names, t, r] = joinArgs('aj', keys, t1, t2)
+  return joinCols(names, t, r, asofRows(names, t, r))
+}
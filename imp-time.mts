@@ -0,0 +1,125 @@
+/** Dates and times
+ * Temporal values are numbers in a fixed unit, counted from 2000.01.01 as in q:
+ *
+ *   type        unit                            literal
+ *   ----        ----                            -------
+ *   DATE        days since 2000.01.01           2026.10.19
+ *   TIME        milliseconds since midnight     12:30:00.000
+ *   TIMESTAMP   milliseconds since 2000.01.01   2026.10.19D12:30:00.000
+ *   TIMESPAN    milliseconds                    0D01:30:00.000
+ *
+ * Adjacent literals of one type strand into a vector (DATEs, TIMEs, ...).
+ * Each type has a null, 0Nd 0Nt 0Np 0Nn, held as NULL_INT.
+ */
+import {ImpT, ImpVal, ImpError, NULL_INT} from './imp-core.mjs'
+
+export const DAY = 86400000
+const EPOCH = Date.UTC(2000, 0, 1)
+
+// d(ate), t(ime), (times)p, (timespa)n: q's letters, also used by `cast`
+export type TimeUnit = 'd' | 't' | 'p' | 'n'
+
+const units: Partial<Record<ImpT, TimeUnit>> = {
+  [ImpT.DATE]: 'd', [ImpT.TIME]: 't', [ImpT.TIMESTAMP]: 'p', [ImpT.TIMESPAN]: 'n',
+  [ImpT.DATEs]: 'd', [ImpT.TIMEs]: 't', [ImpT.TIMESTAMPs]: 'p', [ImpT.TIMESPANs]: 'n'}
+const atoms: Record<TimeUnit, ImpT> = {d: ImpT.DATE, t: ImpT.TIME, p: ImpT.TIMESTAMP, n: ImpT.TIMESPAN}
+const vectors: Record<TimeUnit, ImpT> = {d: ImpT.DATEs, t: ImpT.TIMEs, p: ImpT.TIMESTAMPs, n: ImpT.TIMESPANs}
+
+/** the unit of a temporal atom or vector type */
+export function timeUnit(t: ImpT): TimeUnit | undefined { return units[t] }
+export function timeAtom(u: TimeUnit): ImpT { return atoms[u] }
+export function timeVec(u: TimeUnit): ImpT { return vectors[u] }
+export function isTimeVec(t: ImpT): boolean { let u = units[t]; return !!u && vectors[u] === t }
+
+// -- literals ------------------------------------------------------------
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+
+// "hh:mm:ss" with optional .mmm, as milliseconds (NaN if out of range)
+function clockMs(s: string): number {
+  let [h, m, sec] = s.split(':')
+  if (+m > 59 || +sec >= 60) return NaN
+  return (+h * 60 + +m) * 60000 + Math.round(parseFloat(sec) * 1000)
+}
+
+// "yyyy.mm.dd" as days since 2000.01.01 (NaN if there is no such day)
+function dateDays(s: string): number {
+  let [y, m, d] = s.split('.').map(Number)
+  let t = new Date(EPOCH)
+  t.setUTCFullYear(y, m - 1, d)
+  if (t.getUTCFullYear() !== y || t.getUTCMonth() !== m - 1 || t.getUTCDate() !== d) return NaN
+  return Math.round((t.getTime() - EPOCH) / DAY)
+}
+
+/** the number a literal of temporal type `t` stands for; NaN if it names no real date or time */
+export function readTime(t: ImpT, text: string): number {
+  if (/^0N[dtpn]$/.test(text)) return NULL_INT
+  switch (units[t]) {
+    case 'd': return dateDays(text)
+    case 't': return text.startsWith('-') ? -clockMs(text.slice(1)) : clockMs(text)
+    case 'p': {
+      let [date, clock] = text.split('D')
+      return dateDays(date) * DAY + (clock ? clockMs(clock) : 0) }
+    case 'n': {
+      let neg = text.startsWith('-'), [days, clock] = text.slice(neg ? 1 : 0).split('D')
+      let ms = +days * DAY + (clock ? clockMs(clock) : 0)
+      return neg ? -ms : ms }
+    default: return NaN
+  }
+}
+
+function ymd(days: number): string {
+  let t = new Date(EPOCH + days * DAY)
+  return `${pad(t.getUTCFullYear(), 4)}.${pad(t.getUTCMonth() + 1)}.${pad(t.getUTCDate())}`
+}
+
+function clock(ms: number): string {
+  if (ms < 0) return '-' + clock(-ms)
+  ms = Math.round(ms)
+  let h = Math.floor(ms / 3600000), m = Math.floor(ms / 60000) % 60, s = Math.floor(ms / 1000) % 60
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`
+}
+
+/** the literal for `n` as a temporal atom of type `t` */
+export function showTime(t: ImpT, n: number): string {
+  let u = units[t]!
+  if (n === NULL_INT) return '0N' + u
+  switch (u) {
+    case 'd': return ymd(n)
+    case 't': return clock(n)
+    case 'p': return ymd(Math.floor(n / DAY)) + 'D' + clock(((n % DAY) + DAY) % DAY)
+    case 'n': return (n < 0 ? '-' : '') + Math.floor(Math.abs(n) / DAY) + 'D' + clock(Math.abs(n) % DAY)
+  }
+}
+
+/** ISO 8601 text for a date, time or timestamp, or milliseconds for a timespan (for JSON) */
+export function isoTime(t: ImpT, n: number): string | number | null {
+  if (n === NULL_INT) return null
+  switch (units[t]) {
+    case 'd': return new Date(EPOCH + n * DAY).toISOString().slice(0, 10)
+    case 't': return clock(n)
+    case 'p': return new Date(EPOCH + n).toISOString().slice(0, 23)
+    default: return n
+  }
+}
+
+// -- conversions ---------------------------------------------------------
+
+// how a number in one unit becomes another: a timestamp's date or time of day, a date's midnight
+const conversions: Record<string, (n: number) => number> = {
+  dp: n => n * DAY, pd: n => Math.floor(n / DAY), pt: n => ((n % DAY) + DAY) % DAY,
+  tn: n => n, nt: n => n}
+
+/** `cast` of an atom or vector to a temporal type (d t p n), or of a temporal
+ * value to integers (i); undefined when neither side is temporal */
+export function castTime(to: string, x: ImpVal): ImpVal | undefined {
+  let from = units[x[0]], vec = Array.isArray(x[2])
+  let each = (f: (n: number) => number) => vec
+    ? (x[2] as number[]).map(n => n === NULL_INT ? NULL_INT : f(n))
+    : x[2] === NULL_INT ? NULL_INT : f(x[2] as number)
+  if (to === 'i' && from) return [vec ? ImpT.INTs : ImpT.INT, null, each(n => n)] as ImpVal
+  if (!(to in atoms) || (!from && x[0] !== ImpT.INT && x[0] !== ImpT.INTs)) return undefined
+  let u = to as TimeUnit, f = !from || from === u ? (n: number) => n : conversions[from + u]
+  if (!f) throw new ImpError('type', `can't cast ${x[0].toLowerCase()} to ${atoms[u].toLowerCase()}`, x)
+  return [vec ? vectors[u] : atoms[u], null, each(f)] as ImpVal
+}